@@ -989,6 +989,103 @@ export interface SortFillVoxelsOutput {
  */
 export type SortedFillVoxelsDirectoryType = Record<number, Voxel[]>
 
+/**
+ * Decides which voxels are kept by {@link BaseObject.scale} when several voxels are shrunk into one.
+ */
+export enum ScaleDownModes {
+   /**
+    * The voxel is kept if any of the voxels shrunk into it are filled.
+    */
+   "SCALE_DOWN_ANY" = "SCALE_DOWN_ANY",
+   /**
+    * The voxel is kept if more than half of the voxels shrunk into it are filled.
+    */
+   "SCALE_DOWN_MAJORITY" = "SCALE_DOWN_MAJORITY"
+}
+
+/**
+ * The kinds of {@link Transform} that can be placed in the transform stack of a {@link BaseObject}.
+ */
+export enum TransformTypes {
+   "TRANSLATE" = "TRANSLATE",
+   "ROTATE" = "ROTATE",
+   "SCALE" = "SCALE",
+   "SHEAR" = "SHEAR",
+   "MATRIX" = "MATRIX"
+}
+
+/**
+ * Moves the shape by an XYZ offset, the same as an extra origin.
+ */
+export interface TranslateTransform {
+   "type": TransformTypes.TRANSLATE,
+   "offset": Voxel
+}
+
+/**
+ * Rotates the shape around a line, see {@link BaseObject.rotate}.
+ */
+export interface RotateTransform {
+   "type": TransformTypes.ROTATE,
+   /**
+    * XYZ direction of the line, does not need to be normalized.
+    */
+   "axis": Voxel,
+   /**
+    * Angle in degrees, counter-clockwise when looking down the axis towards the origin.
+    */
+   "angle": number,
+   /**
+    * XYZ point the line passes through, default of [0, 0, 0].
+    */
+   "pivot"?: Voxel
+}
+
+/**
+ * Scales the shape by a factor per axis around a point.
+ */
+export interface ScaleTransform {
+   "type": TransformTypes.SCALE,
+   "factors": Voxel,
+   /**
+    * XYZ point that stays in place, default of [0, 0, 0].
+    */
+   "pivot"?: Voxel
+}
+
+/**
+ * Slides one axis in proportion to another, such that axis += factor * (byAxis - pivot[byAxis]).
+ */
+export interface ShearTransform {
+   "type": TransformTypes.SHEAR,
+   /**
+    * Index of the axis that is moved
+    */
+   "axis": number,
+   /**
+    * Index of the axis that decides how far it is moved, not the same as axis.
+    */
+   "byAxis": number,
+   "factor": number,
+   /**
+    * XYZ point that stays in place, default of [0, 0, 0].
+    */
+   "pivot"?: Voxel
+}
+
+/**
+ * Any affine transform as a row major 4x4 matrix, where the last row is [0, 0, 0, 1].
+ */
+export interface MatrixTransform {
+   "type": TransformTypes.MATRIX,
+   "matrix": number[][]
+}
+
+/**
+ * A single entry of the transform stack of a {@link BaseObject}. Transforms are plain objects, so a stack can be saved with JSON.stringify and loaded with {@link BaseObject.setTransforms}.
+ */
+export type Transform = TranslateTransform | RotateTransform | ScaleTransform | ShearTransform | MatrixTransform
+
 /**
  * A BaseObject holds the most basic data structures required to construct a 3D tesselated shape.
  * 
@@ -1008,7 +1105,7 @@ export class BaseObject {
     * 
     * @remarks
     * 1) This directory is not internally private because it may be millions of voxels in length and a programmer may want to access the array without creating a copy.
-    * 2) Voxels stored within this array do not account for the origin. {@link BaseObject.getFillVoxels} will return a mutation free copy of the fill voxels with origin accounted for.
+    * 2) Voxels stored within this array do not account for the origin or transforms. {@link BaseObject.getFillVoxels} will return a mutation free copy of the fill voxels with origin and {@link BaseObject._transforms} accounted for.
     * 3) Default is [[0,0,0]] for constructor. All other inital instance attributes are based around this.
     * 4) Everytime the shapes fill voxels or origin are changed, {@link BaseObject.calculateBoundingBox} must be called. This is automatically done by default sub classes such as {@link Line}.
     */
@@ -1020,13 +1117,35 @@ export class BaseObject {
     * This allows the shape to be moved around without recalculating all of the {@link BaseObject._fillVoxels}.
     */
    _origin: Voxel
+   /**
+    * Ordered stack of {@link Transform} applied after the origin, where the first entry is applied first.
+    *
+    * @remarks
+    * Like the origin, this allows the shape to be moved, rotated, scaled or sheared without generating the {@link BaseObject._fillVoxels} again.
+    * The transformed voxels are calculated by {@link BaseObject.getFillVoxels} when first read and kept until the next {@link BaseObject.calculateBoundingBox}, so several edits in a row only transform the voxels once.
+    *
+    * The fill voxels, bounding boxes and everything based on them, such as set operations, are transformed. Vertice, edge and center getters such as {@link Layer.getVerticeVoxels} are moved by the same transforms with {@link BaseObject.placePoints} and {@link BaseObject.placeVoxels}.
+    *
+    * Use the transform methods such as {@link BaseObject.addTransform} to edit the stack, which re-calculate the bounding box.
+    */
+   _transforms: Transform[]
+   /**
+    * The fill voxels with origin and transforms accounted for, cleared by {@link BaseObject.calculateBoundingBox}.
+    */
+   #transformedVoxels: Voxel[] | undefined
+   /**
+    * The bounding box and sorted fill voxels, cleared by {@link BaseObject.calculateBoundingBox}.
+    */
+   #boundingData: { boundingBoxMeta: ZeroVolumeBoundingBoxPointData | BoundingBox } & SortFillVoxelsOutput | undefined
    /**
     * A {@link JointBoundingBox} that combines each entry from {@link BaseObject.sortedFillVoxelsDirectory} into one box.
     * 
     * @remarks
     * Returned from {@link BaseObject.sortFillVoxels}, Accounts for origin.
     */
-   jointBoundingBox: JointBoundingBox
+   get jointBoundingBox(): JointBoundingBox {
+      return this.#getBoundingData().jointBoundingBox;
+   }
    /**
     * A single {@link BoundingBox} that emcompasses the entire {@link BaseObject._fillVoxels}.
     * 
@@ -1038,27 +1157,25 @@ export class BaseObject {
     * @remarks
     * Accounts for origin.
     */
-   boundingBoxMeta: ZeroVolumeBoundingBoxPointData | BoundingBox
+   get boundingBoxMeta(): ZeroVolumeBoundingBoxPointData | BoundingBox {
+      return this.#getBoundingData().boundingBoxMeta;
+   }
    /**
     * Catagorizes a group of voxels into a directory where the key is the value of the largest axes from the {@link BoundingBox}. The value is all voxels with that coordinate value.
     *     
     * @remarks
     * Returned from {@link BaseObject.sortFillVoxels}, Accounts for origin.
    */
-   sortedFillVoxelsDirectory: SortedFillVoxelsDirectoryType
+   get sortedFillVoxelsDirectory(): SortedFillVoxelsDirectoryType {
+      return this.#getBoundingData().sortedFillVoxelsDirectory;
+   }
    constructor(options: BaseObjectOptions) {
       this.controller = options.controller
       this.uuid = options.controller.getNewID()
       // Inital value
       this._fillVoxels = [[0, 0, 0]]
       this._origin = [...options.origin]
-      this.boundingBoxMeta = new BoundingBox({
-         boundingInputPayload: BaseObject.addOrigin(this._fillVoxels, this._origin),
-         inputType: BoundingBoxPayloadModes.TYPE_BOUNDING_POINTS
-      });
-      let output: SortFillVoxelsOutput = BaseObject.sortFillVoxels(this.getFillVoxels(), this.boundingBoxMeta as BoundingBox)
-      this.sortedFillVoxelsDirectory = output.sortedFillVoxelsDirectory
-      this.jointBoundingBox = output.jointBoundingBox
+      this._transforms = []
    }
 
    static convertPointsToDemos(points: Point[]): String {
@@ -1094,41 +1211,231 @@ export class BaseObject {
    }
    /**
     * 
-    * @returns The shapes {@link BaseObject._fillVoxels} within origin accounted for, mutation free copy.
+    * @returns The shapes {@link BaseObject._fillVoxels} within origin and {@link BaseObject._transforms} accounted for, mutation free copy.
     * 
     * @remarks
-    * A pass through method to {@link BaseObject.addOrigin} (see example).
+    * Without transforms, a pass through method to {@link BaseObject.addOrigin} (see example). With transforms, the voxels are moved by {@link BaseObject.getTransformMatrix}
+    * with {@link BaseObject.transformVoxels}, and kept until the next {@link BaseObject.calculateBoundingBox}.
     * 
     * @example
-    * // Source code
+    * // Source code without transforms
     * return BaseObject.addOrigin(this._fillVoxels, this.getOrigin());
     */
    getFillVoxels() {
-      return BaseObject.addOrigin(this._fillVoxels, this.getOrigin());
+      if (this._transforms.length === 0) {
+         return BaseObject.addOrigin(this._fillVoxels, this.getOrigin());
+      }
+      if (this.#transformedVoxels === undefined) {
+         this.#transformedVoxels = this.placeVoxels(this._fillVoxels)
+      }
+      return BaseObject.addOrigin(this.#transformedVoxels, [0, 0, 0]);
+   }
+   /**
+    * Adds the origin to points, such as vertices, and moves them by {@link BaseObject.getTransformMatrix}. Used by getters such as {@link Layer.getVerticeVoxels}.
+    * @param points XYZ points that do not account for origin, does not mutate
+    * @returns The moved points, each rounded to the nearest voxel.
+    */
+   placePoints(points: Voxel[]): Voxel[] {
+      const moved = BaseObject.addOrigin(points, this._origin)
+      if (this._transforms.length === 0) {
+         return moved
+      }
+      const matrix = this.getTransformMatrix()
+      return moved.map(point => [0, 1, 2].map(i => Math.round(matrix[i][0] * point[0] + matrix[i][1] * point[1] + matrix[i][2] * point[2] + matrix[i][3]) + 0) as Voxel)
+   }
+   /**
+    * Adds the origin to voxels, such as the edges of a {@link Layer}, and moves them by {@link BaseObject.getTransformMatrix} with {@link BaseObject.transformVoxels}, the same as {@link BaseObject.getFillVoxels}.
+    * @param voxels XYZ voxels that do not account for origin, does not mutate
+    * @returns The moved voxels without gaps.
+    */
+   placeVoxels(voxels: Voxel[]): Voxel[] {
+      const moved = BaseObject.addOrigin(voxels, this._origin)
+      if (this._transforms.length === 0) {
+         return moved
+      }
+      const matrix = this.getTransformMatrix()
+      return BaseObject.transformVoxels(moved, matrix.slice(0, 3).map(row => row.slice(0, 3)), [0, 0, 0], matrix.slice(0, 3).map(row => row[3]))
+   }
+   /**
+    * @returns A mutation free copy of the {@link BaseObject._transforms}.
+    */
+   getTransforms(): Transform[] {
+      return BaseObject.deepCopy(this._transforms);
+   }
+   /**
+    * Replaces the whole transform stack, such as one loaded from JSON, and calls {@link BaseObject.calculateBoundingBox}.
+    * @param transforms New transforms, first applied first. Does not mutate.
+    * @returns Reference to this object for method chaining.
+    * @throws {@link TypeError} If a transform has an unknown type.
+    * @throws {@link RangeError} If a transform has invalid values, see {@link BaseObject.transformToMatrix}.
+    */
+   setTransforms(transforms: Transform[]): this {
+      transforms.forEach(BaseObject.transformToMatrix)
+      this._transforms = BaseObject.deepCopy(transforms)
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Inserts a transform into the stack and calls {@link BaseObject.calculateBoundingBox}.
+    * @param transform The transform to insert, does not mutate.
+    * @param index Position in the stack, default of the end so it is applied last.
+    * @returns Reference to this object for method chaining.
+    * @throws {@link RangeError} If the index is outside of the stack, or the transform has invalid values.
+    * @throws {@link TypeError} If the transform has an unknown type.
+    */
+   addTransform(transform: Transform, index: number = this._transforms.length): this {
+      if (!Number.isInteger(index) || index < 0 || index > this._transforms.length) {
+         throw new RangeError("Invalid transform index " + index + ": must be a whole number from 0 to " + this._transforms.length + ".")
+      }
+      BaseObject.transformToMatrix(transform)
+      this._transforms.splice(index, 0, BaseObject.deepCopy(transform))
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Removes a transform from the stack and calls {@link BaseObject.calculateBoundingBox}.
+    * @param index Position in the stack
+    * @returns Reference to this object for method chaining.
+    * @throws {@link RangeError} If there is no transform at the index.
+    */
+   removeTransform(index: number): this {
+      if (!Number.isInteger(index) || index < 0 || index >= this._transforms.length) {
+         throw new RangeError("Invalid transform index " + index + ": the stack has " + this._transforms.length + " transforms.")
+      }
+      this._transforms.splice(index, 1)
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Removes every transform and calls {@link BaseObject.calculateBoundingBox}.
+    * @returns Reference to this object for method chaining.
+    */
+   clearTransforms(): this {
+      return this.setTransforms([])
+   }
+   /**
+    * @returns The row major 4x4 matrix of the whole transform stack, or the identity matrix if empty.
+    */
+   getTransformMatrix(): number[][] {
+      return this._transforms.reduce((prev, curr) => BaseObject.multiplyMatrices(BaseObject.transformToMatrix(curr), prev), BaseObject.translationMatrix([0, 0, 0]))
+   }
+   /**
+    * @param offset XYZ offset
+    * @returns The row major 4x4 matrix that moves points by the offset.
+    */
+   static translationMatrix(offset: number[]): number[][] {
+      return [
+         [1, 0, 0, offset[0]],
+         [0, 1, 0, offset[1]],
+         [0, 0, 1, offset[2]],
+         [0, 0, 0, 1]
+      ]
+   }
+   /**
+    * Converts a 3x3 matrix applied around a pivot into a row major 4x4 matrix.
+    * @param matrix 3x3 matrix
+    * @param pivot XYZ point that stays in place
+    * @returns The 4x4 matrix
+    */
+   static affineMatrix(matrix: number[][], pivot: number[]): number[][] {
+      const moved = BaseObject.applyMatrix(matrix, pivot)
+      return [
+         [...matrix[0], pivot[0] - moved[0]],
+         [...matrix[1], pivot[1] - moved[1]],
+         [...matrix[2], pivot[2] - moved[2]],
+         [0, 0, 0, 1]
+      ]
+   }
+   /**
+    * @param transform Transform to convert
+    * @returns The row major 4x4 matrix of the transform
+    * @throws {@link TypeError} If the transform has an unknown type.
+    * @throws {@link RangeError} If a value is not a finite number, a rotation axis is [0, 0, 0], a scale factor is not greater than zero, the shear axes are invalid or the same,
+    * or a matrix is not 4x4 with a last row of [0, 0, 0, 1] or can not be inverted.
+    */
+   static transformToMatrix(transform: Transform): number[][] {
+      const validateFinite = (name: string, values: number[]) => {
+         if (!values.every(n => Number.isFinite(n))) {
+            throw new RangeError("Invalid " + name + " [" + values.join(", ") + "] of " + transform.type + " transform: must be finite numbers.")
+         }
+      }
+      if ("pivot" in transform && transform.pivot !== undefined) {
+         validateFinite("pivot", transform.pivot)
+      }
+      switch (transform.type) {
+         case TransformTypes.TRANSLATE:
+            validateFinite("offset", transform.offset)
+            return BaseObject.translationMatrix(transform.offset)
+         case TransformTypes.ROTATE:
+            validateFinite("axis and angle", [...transform.axis, transform.angle])
+            if (transform.axis[0] === 0 && transform.axis[1] === 0 && transform.axis[2] === 0) {
+               throw new RangeError("Invalid rotation axis [0, 0, 0]: must have a direction.")
+            }
+            return BaseObject.affineMatrix(BaseObject.rotationMatrix(transform.axis, transform.angle * Math.PI / 180), transform.pivot ?? [0, 0, 0])
+         case TransformTypes.SCALE: {
+            const factors = BaseObject.validateScaleFactors(transform.factors)
+            return BaseObject.affineMatrix([[factors[0], 0, 0], [0, factors[1], 0], [0, 0, factors[2]]], transform.pivot ?? [0, 0, 0])
+         }
+         case TransformTypes.SHEAR: {
+            if ([0, 1, 2].indexOf(transform.axis) === -1 || [0, 1, 2].indexOf(transform.byAxis) === -1 || transform.axis === transform.byAxis) {
+               throw new RangeError("Invalid shear axes " + transform.axis + " and " + transform.byAxis + ": must be two different values of 0, 1 or 2.")
+            }
+            validateFinite("factor", [transform.factor])
+            let matrix = [[1, 0, 0], [0, 1, 0], [0, 0, 1]]
+            matrix[transform.axis][transform.byAxis] = transform.factor
+            return BaseObject.affineMatrix(matrix, transform.pivot ?? [0, 0, 0])
+         }
+         case TransformTypes.MATRIX: {
+            const matrix = transform.matrix
+            if (matrix.length !== 4 || matrix.some(row => row.length !== 4) || matrix[3][0] !== 0 || matrix[3][1] !== 0 || matrix[3][2] !== 0 || matrix[3][3] !== 1) {
+               throw new RangeError("Invalid transform matrix " + JSON.stringify(matrix) + ": must be 4x4 with a last row of [0, 0, 0, 1].")
+            }
+            validateFinite("matrix", matrix.flat())
+            // Voxels are mapped back through the inverse, see BaseObject.transformVoxels
+            BaseObject.invertMatrix(matrix.slice(0, 3).map(row => row.slice(0, 3)))
+            return BaseObject.deepCopy(matrix)
+         }
+         default:
+            throw new TypeError("Unknown transform type " + (transform as { type: unknown }).type + ": must be one of " + Object.values(TransformTypes).join(", ") + ".")
+      }
    }
    /**
     * Since the {@link BaseObject.boundingBox}, {@link BaseObject.sortedFillVoxelsDirectory}, and {@link BaseObject.jointBoundingBox} are all based on the current {@link BaseObject._fillVoxels}, a change to the fill voxels or origin will now make these directories wrong.
     * 
     * Each time the fill voxels or origin are changed, this method must be called. Any built in subclass of {@link BaseObject} that changes fill voxels, such as {@link Line.generateLine}, will automatically call this method.
     *
-    * {@link BaseObject.sortFillVoxels} can only accept a BoundingBox and more than one Voxel. As a result, we cannot run that function when the object has no voxels. 
-    * 
-    * As a result, running this function when you have no voxels will result in creating a {@link ZeroVolumeBoundingBoxPointData}, an empty {@link JointBoundingBox}, and an empty {@link BaseObject.sortedFillVoxelsDirectory}
+    * The directories and the transformed fill voxels are only cleared, and are calculated again when next read, so calling this method after every edit is cheap.
    */
    calculateBoundingBox(): void {
-      this.sortedFillVoxelsDirectory = {}
+      this.#transformedVoxels = undefined
+      this.#boundingData = undefined
+   }
+   /**
+    * Calculates the bounding box and sorted fill voxels if they were cleared by {@link BaseObject.calculateBoundingBox}.
+    *
+    * @remarks
+    * {@link BaseObject.sortFillVoxels} can only accept a BoundingBox and more than one Voxel. As a result, we cannot run that function when the object has no voxels. 
+    * 
+    * As a result, when you have no voxels this creates a {@link ZeroVolumeBoundingBoxPointData}, an empty {@link JointBoundingBox}, and an empty {@link BaseObject.sortedFillVoxelsDirectory}
+    */
+   #getBoundingData(): { boundingBoxMeta: ZeroVolumeBoundingBoxPointData | BoundingBox } & SortFillVoxelsOutput {
+      if (this.#boundingData !== undefined) {
+         return this.#boundingData
+      }
       if (this._fillVoxels.length === 0) {
-         this.boundingBoxMeta = BoundingBox.getEmptyBoundingTemplate() as ZeroVolumeBoundingBoxPointData
-         this.jointBoundingBox = new JointBoundingBox([])
+         this.#boundingData = {
+            boundingBoxMeta: BoundingBox.getEmptyBoundingTemplate() as ZeroVolumeBoundingBoxPointData,
+            jointBoundingBox: new JointBoundingBox([]),
+            sortedFillVoxelsDirectory: {}
+         }
       } else {
-         this.boundingBoxMeta = new BoundingBox({
+         const boundingBoxMeta = new BoundingBox({
             inputType: BoundingBoxPayloadModes.TYPE_BOUNDING_POINTS,
             boundingInputPayload: this.getFillVoxels()
          });
-         let output: SortFillVoxelsOutput = BaseObject.sortFillVoxels(this.getFillVoxels(), this.boundingBoxMeta as BoundingBox)
-         this.sortedFillVoxelsDirectory = output.sortedFillVoxelsDirectory
-         this.jointBoundingBox = output.jointBoundingBox
+         this.#boundingData = { boundingBoxMeta, ...BaseObject.sortFillVoxels(this.getFillVoxels(), boundingBoxMeta) }
       }
+      return this.#boundingData
    }
    /**
     * Changes the current shapes origin and calls {@link BaseObject.calculateBoundingBox}
@@ -1145,6 +1452,228 @@ export class BaseObject {
       this._origin = [...o]
       this.calculateBoundingBox()
    }
+   /**
+    * Scales the shape around the center of the pivot voxel by a factor per axis.
+    *
+    * @remarks
+    * Voxels are scaled as unit cubes with {@link BaseObject.scaleVoxels}, so a factor of 2 turns each voxel into a 2x2x2 block.
+    *
+    * Without transforms, the shape is scaled by {@link BaseObject.scaleShape}, which changes {@link BaseObject._fillVoxels} and keeps the origin.
+    * With transforms, such as from {@link BaseObject.rotate} or {@link BaseObject.mirror}, shapes that override {@link BaseObject.scaleShape} are still scaled by it when the transforms turn the factors into factors along the axes of the shape, see {@link BaseObject.getLocalScale}.
+    * Otherwise, or when the shape cannot be scaled by the factors, a {@link ScaleTransform} is added to the end of {@link BaseObject._transforms} instead, so it is applied after them.
+    *
+    * @param factors One factor for all axes or an XYZ factor per axis, each greater than zero.
+    * @param pivot XYZ voxel that stays in place, accounts for origin. Default is the origin.
+    * @param downMode Which voxels are kept when shrinking by a whole number without transforms, default of SCALE_DOWN_ANY.
+    * @returns Reference to this object for method chaining.
+    * @throws {@link RangeError} If a factor is not greater than zero.
+    */
+   scale(factors: number | Voxel, pivot: Voxel = this.getOrigin(), downMode: ScaleDownModes = ScaleDownModes.SCALE_DOWN_ANY): this {
+      const axisFactors = BaseObject.validateScaleFactors(factors)
+      if (this._transforms.length === 0) {
+         return this.scaleShape(axisFactors, pivot, downMode) ? this : this.addTransform({ type: TransformTypes.SCALE, factors: axisFactors, pivot: [...pivot] })
+      }
+      if (this.scaleShape !== BaseObject.prototype.scaleShape) {
+         const local = this.getLocalScale(axisFactors, pivot)
+         if (local !== undefined && this.scaleShape(local.factors, local.pivot, downMode)) {
+            return this
+         }
+      }
+      return this.addTransform({ type: TransformTypes.SCALE, factors: axisFactors, pivot: [...pivot] })
+   }
+   /**
+    * Finds the scale before the {@link BaseObject._transforms} that matches a scale after them, such as a scale along X after a quarter turn around Z, which is a scale along Y before it.
+    * @param factors XYZ factors after the transforms
+    * @param pivot XYZ point that stays in place after the transforms, accounts for origin.
+    * @returns The XYZ factors and pivot before the transforms, or undefined if the transforms turn the factors away from the axes, such as a scale along X after a 45 degree turn.
+    */
+   getLocalScale(factors: Voxel, pivot: Voxel): { factors: Voxel, pivot: Voxel } | undefined {
+      const matrix = this.getTransformMatrix()
+      const linear = matrix.slice(0, 3).map(row => row.slice(0, 3))
+      const inverse = BaseObject.invertMatrix(linear)
+      const local = BaseObject.multiplyMatrices(inverse, BaseObject.multiplyMatrices([[factors[0], 0, 0], [0, factors[1], 0], [0, 0, factors[2]]], linear))
+      if (local.some((row, i) => row.some((n, j) => i !== j && Math.abs(n) > 1e-9))) {
+         return undefined
+      }
+      // Removes floating point noise, so equal factors stay equal
+      const localFactors = local.map((row, i) => factors.find(n => Math.abs(n - row[i]) < 1e-9) ?? row[i]) as Voxel
+      const localPivot = BaseObject.applyMatrix(inverse, pivot.map((n, i) => n - matrix[i][3])).map(n => Math.abs(n - Math.round(n)) < 1e-9 ? Math.round(n) + 0 : n) as Voxel
+      return { factors: localFactors, pivot: localPivot }
+   }
+   /**
+    * Scales the {@link BaseObject._fillVoxels} with {@link BaseObject.scaleVoxels}, used by {@link BaseObject.scale} when there are no transforms.
+    *
+    * @remarks
+    * Shapes made from vertices or parameters, such as {@link Layer}, {@link Line} and {@link Cone}, override this to scale their vertices and sizes around the pivot and generate the shape again, which keeps edges clean.
+    *
+    * Calls {@link BaseObject.calculateBoundingBox}.
+    *
+    * @param factors XYZ factors, each greater than zero.
+    * @param pivot XYZ point that stays in place, accounts for origin. Can be a fraction when found by {@link BaseObject.getLocalScale}.
+    * @param downMode Which voxels are kept when shrinking by a whole number.
+    * @returns True if the shape was scaled, false if the shape cannot be scaled by the factors and nothing was changed.
+    */
+   scaleShape(factors: Voxel, pivot: Voxel, downMode: ScaleDownModes): boolean {
+      this._fillVoxels = BaseObject.scaleVoxels(BaseObject.addOrigin(this._fillVoxels, this._origin), factors, pivot, downMode).map(voxel => voxel.map((n, i) => n - this._origin[i]) as Voxel)
+      this.calculateBoundingBox()
+      return true
+   }
+   /**
+    * @param factors One factor for all axes or an XYZ factor per axis
+    * @returns The XYZ factors
+    * @throws {@link RangeError} If a factor is not a finite number greater than zero.
+    */
+   static validateScaleFactors(factors: number | Voxel): Voxel {
+      let axisFactors: Voxel = typeof factors === "number" ? [factors, factors, factors] : [...factors]
+      for (let factor of axisFactors) {
+         if (!(factor > 0) || !Number.isFinite(factor)) {
+            throw new RangeError("Invalid scale factor " + factor + " in " + JSON.stringify(axisFactors) + ": factors must be greater than zero.")
+         }
+      }
+      return axisFactors
+   }
+   /**
+    * Scales vertices around a pivot and rounds them to whole voxels.
+    * @param points XYZ points, does not mutate
+    * @param factors XYZ factors
+    * @param pivot XYZ point that stays in place
+    * @returns The scaled points
+    */
+   static scalePoints(points: Voxel[], factors: Voxel, pivot: number[]): Voxel[] {
+      return points.map(point => point.map((n, i) => Math.round(pivot[i] + (n - pivot[i]) * factors[i]) + 0) as Voxel)
+   }
+   /**
+    * Scales voxels as unit cubes around the center of the pivot voxel.
+    *
+    * @remarks
+    * When every factor is a whole number or one over a whole number, the result is exact: each voxel grows into a block, or each block of voxels shrinks into one voxel
+    * that is kept as per the down mode. Any other factor, such as 1.5, is scaled with {@link BaseObject.transformVoxels}.
+    *
+    * Blocks are centered on the scaled voxel center, and blocks of an even size extend one voxel further to the negative side, such as [-1, 0] for the pivot voxel at 0 and a factor of 2.
+    *
+    * @param voxels XYZ voxels, does not mutate
+    * @param factors XYZ factors, each greater than zero
+    * @param pivot XYZ voxel that stays in place
+    * @param downMode Which voxels are kept when shrinking
+    * @returns Scaled voxels without duplicates
+    */
+   static scaleVoxels(voxels: Voxel[], factors: Voxel, pivot: Voxel, downMode: ScaleDownModes): Voxel[] {
+      const isExact = (factor: number) => Number.isInteger(factor) || Math.abs(1 / factor - Math.round(1 / factor)) < 1e-9
+      if (!factors.every(isExact)) {
+         return BaseObject.transformVoxels(voxels, [[factors[0], 0, 0], [0, factors[1], 0], [0, 0, factors[2]]], pivot)
+      }
+      const shrink = factors.map(n => n < 1 ? Math.round(1 / n) : 1)
+      const grow = factors.map(n => n < 1 ? 1 : n)
+      // The amount of voxels shrunk into each remaining voxel
+      let counts: Record<string, number> = {}
+      for (let voxel of voxels) {
+         let key = voxel.map((n, i) => pivot[i] + Math.floor((n - pivot[i] + Math.floor(shrink[i] / 2)) / shrink[i])).join(",")
+         counts[key] = (counts[key] ?? 0) + 1
+      }
+      const required = downMode === ScaleDownModes.SCALE_DOWN_MAJORITY ? shrink[0] * shrink[1] * shrink[2] / 2 : 0
+      let output: Voxel[] = []
+      for (let key of Object.keys(counts)) {
+         if (counts[key] <= required) {
+            continue
+         }
+         let start = key.split(",").map((n, i) => pivot[i] + (Number(n) - pivot[i]) * grow[i] - Math.floor(grow[i] / 2))
+         for (let x = 0; x < grow[0]; x++) {
+            for (let y = 0; y < grow[1]; y++) {
+               for (let z = 0; z < grow[2]; z++) {
+                  output.push([start[0] + x, start[1] + y, start[2] + z])
+               }
+            }
+         }
+      }
+      return output
+   }
+   /**
+    * Reflects the shape across a plane perpendicular to an axis. No voxels are added or lost.
+    *
+    * @remarks
+    * Adds a {@link MatrixTransform} to the end of {@link BaseObject._transforms}, so the reflection is kept when a subclass generates its voxels again, such as {@link Line.generateLine}.
+    * Use {@link SymmetricObject} to keep a reflection linked to its source.
+    *
+    * @param axis Index of the axis the plane is perpendicular to, 0 (X), 1 (Y) or 2 (Z).
+    * @param planeCoordinate Position of the plane on the axis, accounts for origin. A whole number passes through a voxel, a half number is between two voxels. Default is the origin.
+    * @returns Reference to this object for method chaining.
+    * @throws {@link RangeError} If the axis is not 0, 1 or 2, or the plane coordinate is not a whole or half number.
+    */
+   mirror(axis: number, planeCoordinate: number = this._origin[axis]): this {
+      BaseObject.validateMirrorPlane(axis, planeCoordinate)
+      let matrix = BaseObject.translationMatrix([0, 0, 0])
+      matrix[axis][axis] = -1
+      matrix[axis][3] = planeCoordinate * 2
+      return this.addTransform({ type: TransformTypes.MATRIX, matrix })
+   }
+   /**
+    * @param axis Index of the axis the plane is perpendicular to
+    * @param planeCoordinate Position of the plane on the axis
+    * @throws {@link RangeError} If the axis is not 0, 1 or 2, or the plane coordinate is not a whole or half number.
+    */
+   static validateMirrorPlane(axis: number, planeCoordinate: number): void {
+      if ([0, 1, 2].indexOf(axis) === -1) {
+         throw new RangeError("Invalid mirror axis " + axis + ": must be 0, 1 or 2.")
+      }
+      if (!Number.isInteger(planeCoordinate * 2)) {
+         throw new RangeError("Invalid mirror plane " + planeCoordinate + ": must be a whole or half number so voxels reflect onto voxels.")
+      }
+   }
+   /**
+    * @param voxels XYZ voxels, does not mutate
+    * @param axis Index of the axis the plane is perpendicular to, 0 (X), 1 (Y) or 2 (Z).
+    * @param planeCoordinate Position of the plane on the axis, a whole or half number.
+    * @returns The voxels reflected across the plane
+    * @throws {@link RangeError} If the axis is not 0, 1 or 2, or the plane coordinate is not a whole or half number.
+    */
+   static mirrorVoxels(voxels: Voxel[], axis: number, planeCoordinate: number): Voxel[] {
+      BaseObject.validateMirrorPlane(axis, planeCoordinate)
+      return voxels.map(voxel => {
+         let reflected: Voxel = [...voxel]
+         reflected[axis] = planeCoordinate * 2 - voxel[axis] + 0
+         return reflected
+      })
+   }
+   /**
+    * Rotates the shape by an exact multiple of 90 degrees around an axis aligned line through the pivot. No voxels are added or lost.
+    *
+    * @remarks
+    * Adds a {@link RotateTransform} to the end of {@link BaseObject._transforms}, so the rotation is kept when a subclass generates its voxels again, such as {@link Line.generateLine}.
+    * Transforms are applied after the origin, so a later change of origin moves the shape before it is rotated around the same pivot.
+    *
+    * @param axis Index of the axis to rotate around, 0 (X), 1 (Y) or 2 (Z).
+    * @param turns Amount of counter-clockwise quarter turns when looking down the axis towards the origin, may be negative.
+    * @param pivot XYZ point the axis passes through, accounts for origin. Default is the origin.
+    * @returns Reference to this object for method chaining.
+    * @throws {@link RangeError} If the axis is not 0, 1 or 2, or turns is not a whole number.
+    */
+   rotate90(axis: number, turns: number, pivot: Voxel = this.getOrigin()): this {
+      if ([0, 1, 2].indexOf(axis) === -1) {
+         throw new RangeError("Invalid rotation axis " + axis + ": must be 0, 1 or 2.")
+      }
+      if (!Number.isInteger(turns)) {
+         throw new RangeError("Invalid amount of turns " + turns + ": must be a whole number.")
+      }
+      let direction: Voxel = [0, 0, 0]
+      direction[axis] = 1
+      return this.addTransform({ type: TransformTypes.ROTATE, axis: direction, angle: (((turns % 4) + 4) % 4) * 90, pivot: [...pivot] })
+   }
+   /**
+    * Rotates the shape by any angle around a line through the pivot.
+    *
+    * @remarks
+    * Adds a {@link RotateTransform} to the end of {@link BaseObject._transforms}, see {@link BaseObject.rotate90}. The voxels are found with {@link BaseObject.transformVoxels},
+    * which keeps multiples of 90 degrees around an axis aligned line exact.
+    *
+    * @param axis XYZ direction of the line to rotate around, does not need to be normalized.
+    * @param angle Angle in degrees, counter-clockwise when looking down the axis towards the origin.
+    * @param pivot XYZ point the axis passes through, accounts for origin. Default is the origin.
+    * @returns Reference to this object for method chaining.
+    * @throws {@link RangeError} If the axis is [0, 0, 0], or the axis, angle or pivot is not a finite number.
+    */
+   rotate(axis: number[], angle: number, pivot: Voxel = this.getOrigin()): this {
+      return this.addTransform({ type: TransformTypes.ROTATE, axis: [...axis] as Voxel, angle, pivot: [...pivot] })
+   }
    /**
     * Takes in a array of {@link Voxel} and uses the {@link BoundingBox} that surronds the voxels to catagorize them. The largest axis of the bounding box is used to slice the voxel collection, 
     * and group it together into a directory where the entry key is the coordinate value, and entry value is all voxels that have that axis value.
@@ -1391,6 +1920,145 @@ export class BaseObject {
    static deepCopy(object: any): any {
       return JSON.parse(JSON.stringify(object))
    }
+   /**
+    * Creates the 3x3 matrix that rotates a vector around an axis via Rodrigues' rotation formula.
+    *
+    * @link https://en.wikipedia.org/wiki/Rodrigues%27_rotation_formula
+    *
+    * @param axis XYZ direction of the axis, does not need to be normalized but must not be [0, 0, 0].
+    * @param angle Angle in radians, counter-clockwise when looking down the axis towards the origin.
+    * @returns Row major rotation matrix
+    */
+   static rotationMatrix(axis: number[], angle: number): number[][] {
+      const length = Math.sqrt(axis[0] ** 2 + axis[1] ** 2 + axis[2] ** 2)
+      const [x, y, z] = axis.map(n => n / length)
+      const c = Math.cos(angle)
+      const s = Math.sin(angle)
+      const t = 1 - c
+      return [
+         [t * x * x + c, t * x * y - s * z, t * x * z + s * y],
+         [t * x * y + s * z, t * y * y + c, t * y * z - s * x],
+         [t * x * z - s * y, t * y * z + s * x, t * z * z + c]
+      ]
+   }
+   /**
+    * @param a Matrix applied second
+    * @param b Matrix applied first
+    * @returns The matrix product a * b
+    */
+   static multiplyMatrices(a: number[][], b: number[][]): number[][] {
+      return a.map(row => b[0].map((_, j) => row.reduce((prev, curr, k) => prev + curr * b[k][j], 0)))
+   }
+   /**
+    * @param matrix 3x3 matrix
+    * @returns The determinant, how much the matrix scales volume. Negative if it mirrors.
+    */
+   static matrixDeterminant(matrix: number[][]): number {
+      const [[a, b, c], [d, e, f], [g, h, i]] = matrix
+      return a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g)
+   }
+   /**
+    * Inverts a 3x3 matrix via its adjugate.
+    * @param matrix 3x3 matrix, does not mutate
+    * @returns The inverse of the matrix
+    * @throws {@link RangeError} If the matrix can not be inverted, such as when it flattens space.
+    */
+   static invertMatrix(matrix: number[][]): number[][] {
+      const [[a, b, c], [d, e, f], [g, h, i]] = matrix
+      const determinant = BaseObject.matrixDeterminant(matrix)
+      if (Math.abs(determinant) < 1e-12) {
+         throw new RangeError("Unable to invert matrix " + JSON.stringify(matrix) + ": the determinant is zero.")
+      }
+      return [
+         [(e * i - f * h) / determinant, (c * h - b * i) / determinant, (b * f - c * e) / determinant],
+         [(f * g - d * i) / determinant, (a * i - c * g) / determinant, (c * d - a * f) / determinant],
+         [(d * h - e * g) / determinant, (b * g - a * h) / determinant, (a * e - b * d) / determinant]
+      ]
+   }
+   /**
+    * Moves voxels by a matrix around a pivot, without leaving gaps.
+    *
+    * @remarks
+    * Every voxel near the mapped center of an input voxel is mapped back through the inverse matrix and kept if it lands on one of the input voxels (inverse mapping).
+    * The center of every input voxel is also mapped forward, so thin shapes keep every voxel.
+    *
+    * A matrix of whole numbers that keeps volume, such as a quarter turn, mirror or whole number shear, with a whole number translation maps voxels onto voxels exactly, so only the forward mapping is used.
+    *
+    * @param voxels XYZ voxels, does not mutate
+    * @param matrix 3x3 matrix applied relative to the pivot
+    * @param pivot XYZ point that does not move
+    * @param translation XYZ offset applied after the matrix, default of [0, 0, 0].
+    * @returns Transformed voxels without duplicates
+    * @throws {@link RangeError} If the matrix can not be inverted.
+    */
+   static transformVoxels(voxels: Voxel[], matrix: number[][], pivot: number[], translation: number[] = [0, 0, 0]): Voxel[] {
+      const inverse = BaseObject.invertMatrix(matrix)
+      const forward = (point: number[]) => BaseObject.applyMatrix(matrix, point.map((n, i) => n - pivot[i])).map((n, i) => n + pivot[i] + translation[i])
+      if (voxels.length === 0) {
+         return []
+      }
+      // Removes floating point noise, such as the cosine of 90 degrees.
+      const snap = (n: number) => Math.abs(n - Math.round(n)) < 1e-9 ? Math.round(n) : n
+      const snappedMatrix = matrix.map(row => row.map(snap))
+      const snappedOffset = forward([0, 0, 0]).map(snap)
+      if (snappedMatrix.every(row => row.every(n => Number.isInteger(n))) && Math.abs(BaseObject.matrixDeterminant(snappedMatrix)) === 1 && snappedOffset.every(n => Number.isInteger(n))) {
+         let exact: Record<string, Voxel> = {}
+         for (let voxel of voxels) {
+            let moved = BaseObject.applyMatrix(snappedMatrix, voxel).map((n, i) => n + snappedOffset[i] + 0) as Voxel
+            exact[moved.join(",")] = moved
+         }
+         return Object.values(exact)
+      }
+      let source = new Set<string>(voxels.map(n => n.join(",")))
+      // A voxel of the result maps back onto an input voxel only if it is within half the transformed voxel size of the mapped center.
+      const reach = matrix.map(row => Math.floor(0.5 * (Math.abs(row[0]) + Math.abs(row[1]) + Math.abs(row[2])) + 0.5))
+      let output: Record<string, Voxel> = {}
+      let checked = new Set<string>()
+      for (let voxel of voxels) {
+         let moved = forward(voxel).map(n => Math.round(n) + 0) as Voxel
+         output[moved.join(",")] = moved
+         for (let x = moved[0] - reach[0]; x <= moved[0] + reach[0]; x++) {
+            for (let y = moved[1] - reach[1]; y <= moved[1] + reach[1]; y++) {
+               for (let z = moved[2] - reach[2]; z <= moved[2] + reach[2]; z++) {
+                  let key = x + "," + y + "," + z
+                  if (checked.has(key)) {
+                     continue
+                  }
+                  checked.add(key)
+                  let back = BaseObject.applyMatrix(inverse, [x - pivot[0] - translation[0], y - pivot[1] - translation[1], z - pivot[2] - translation[2]]).map((n, i) => Math.round(n + pivot[i]) + 0)
+                  if (source.has(back.join(","))) {
+                     output[key] = [x, y, z]
+                  }
+               }
+            }
+         }
+      }
+      return Object.values(output)
+   }
+   /**
+    * @param matrix 3x3 matrix
+    * @param vector XYZ vector
+    * @returns The matrix product matrix * vector
+    */
+   static applyMatrix(matrix: number[][], vector: number[]): Voxel {
+      return [0, 1, 2].map(i => matrix[i][0] * vector[0] + matrix[i][1] * vector[1] + matrix[i][2] * vector[2]) as Voxel
+   }
+   /**
+    * Used to decide if a voxel is on the outside shell of a shape, as a voxel is on the shell if any of its face neighbors are outside the shape.
+    *
+    * @param voxel XYZ Point
+    * @returns The six voxels that share a face with the given voxel.
+    */
+   static getFaceNeighbors(voxel: Voxel): Voxel[] {
+      return [
+         [voxel[0] - 1, voxel[1], voxel[2]],
+         [voxel[0] + 1, voxel[1], voxel[2]],
+         [voxel[0], voxel[1] - 1, voxel[2]],
+         [voxel[0], voxel[1] + 1, voxel[2]],
+         [voxel[0], voxel[1], voxel[2] - 1],
+         [voxel[0], voxel[1], voxel[2] + 1]
+      ]
+   }
    /**
     * Removes this object from the controllers reference database, wipes the fillVoxels and removes the ID.
     * 
@@ -1464,10 +2132,10 @@ export class Line extends BaseObject {
       this.calculateBoundingBox()
    }
    /**
-    * @returns The {@link Line._endPoints} with each {@link Line._origin} added to them via {@link BaseObject.addOrigin}.
+    * @returns The {@link Line._endPoints} with each {@link Line._origin} and {@link Line._transforms} applied via {@link BaseObject.placePoints}.
     */
    getVerticeVoxels(): Voxel[] {
-      return BaseObject.addOrigin(this._endPoints, this._origin);
+      return this.placePoints(this._endPoints);
    }
    /**
     * Changes the current {@link Line._endPoints}, set them as the {@link Line._fillVoxels}, calculautes required bounding box data.
@@ -1478,463 +2146,597 @@ export class Line extends BaseObject {
       this._fillVoxels = [...this._endPoints]
       this.calculateBoundingBox()
    }
+   /**
+    * Scales the {@link Line._endPoints} around the pivot and generates the line again.
+    * @override
+    */
+   scaleShape(factors: Voxel, pivot: Voxel): boolean {
+      this.changeEndPoints(BaseObject.scalePoints(this._endPoints, factors, pivot.map((n, i) => n - this._origin[i])) as [Voxel, Voxel])
+      this.generateLine()
+      return true
+   }
 }
 
 /**
- * Options for the {@link Layer} constructor.
+ * Specifies the type of curve generated by {@link CurveLine}
  */
-export interface LayerOptions {
+export enum CurveLineTypes {
+   /**
+    * Every group of three control points (start, control, end) is a segment, where the end of one segment is the start of the next.
+    * Requires an odd amount of control points, at least three.
+    */
+   QUADRATIC_BEZIER = "QUADRATIC_BEZIER",
+   /**
+    * Every group of four control points (start, control, control, end) is a segment, where the end of one segment is the start of the next.
+    * Requires 3n + 1 control points, at least four.
+    */
+   CUBIC_BEZIER = "CUBIC_BEZIER",
+   /**
+    * A smooth curve that passes through every control point. Requires at least two control points.
+    */
+   CATMULL_ROM = "CATMULL_ROM"
+}
+
+/**
+ * The valid {@link CurveLine} options.
+ */
+export interface CurveLineOptions {
    "controller": UUIDController,
    "origin": Voxel,
-   "verticesArray": Voxel[]
+   /**
+    * The points that define the curve, see {@link CurveLineTypes} for how they are used.
+    */
+   "controlPoints": Voxel[],
+   "curveType": CurveLineTypes
 }
 
 /**
- * Stores data structures required to create a 3D polygon in 3D space.
+ * Contains all of the data structures to generate a 3D curve from a set of control points.
+ *
+ * @remarks
+ * The curve is sampled into points which are rounded to voxels, and each sampled voxel is joined to the next with {@link BaseObject.graph3DParametric}. As a result the path never has gaps, every voxel touches the next by a face, edge or corner.
+ *
+ * Related:
+ *
+ * {@link Line}
+ *
+ * {@link CurveLineOptions}
  */
-export class Layer extends BaseObject {
+export class CurveLine extends BaseObject {
    /**
-    * One or more vertices that make up this polygon. Order of vertices decides how the shape will be generated.
-    * 
-    * Use {@link Layer.getVerticeVoxels} to access vertices because this does not account for origin.
+    * Stores the inputted control points. Does not account for origin.
     */
-   _verticesArray: Voxel[]
+   _controlPoints: Voxel[]
    /**
-    * Stores the voxels on the edge of the polygon. 
-    * 
-    * The key is the vertice number in start to end format. For example, "V0V1" represents vertice index zero to index one from {@link _verticesArray}
+    * The voxels the curve was sampled at during {@link CurveLine.generateLine}, in path order. Does not account for origin.
     */
-   edgeDirectory: Record<string, Voxel[]>
-   _edgeVoxels: Voxel[]
-   constructor(options: LayerOptions) {
+   _sampledPoints: Voxel[]
+   curveType: CurveLineTypes
+   constructor(options: CurveLineOptions) {
       super({
          controller: options.controller,
-         origin: options.origin
+         origin: options.origin,
       })
       this.controller.setReferenceEntry(this.uuid, this)
-      this._verticesArray = BaseObject.deepCopy(options.verticesArray)
-      this._fillVoxels = [...this._verticesArray]
+      CurveLine.validateControlPoints(options.controlPoints, options.curveType)
+      this._controlPoints = BaseObject.deepCopy(options.controlPoints)
+      this.curveType = options.curveType
+      this._sampledPoints = []
+      this._fillVoxels = [...this._controlPoints]
       this.calculateBoundingBox()
-      this.edgeDirectory = {}
-      this._edgeVoxels = [...this._verticesArray];
    }
    /**
-    * Changes the shapes vertices. 
-    * 
-    * @remarks
-    * Changes fill voxels to the vertices, resets the edge directory, calculates bounding boxes.
-    * 
-    * @param verticesArray The new set of vertices
-    * 
-    * @returns reference to layer object, allows for method chaining.
+    * @param controlPoints Control points to check
+    * @param curveType The type of curve the control points are for
+    * @throws {@link RangeError} If the amount of control points is invalid for the curve type, see {@link CurveLineTypes}.
     */
-   changeVertices(verticesArray: Voxel[]): Layer { // done
-      this._verticesArray = BaseObject.deepCopy(verticesArray)
-      this._fillVoxels = [...this._verticesArray]
-      this.calculateBoundingBox()
-      this.edgeDirectory = {}
-      this._edgeVoxels = [...this._verticesArray];
-      return this
+   static validateControlPoints(controlPoints: Voxel[], curveType: CurveLineTypes): void {
+      let count = controlPoints.length
+      if (curveType === CurveLineTypes.QUADRATIC_BEZIER && (count < 3 || (count - 1) % 2 !== 0)) {
+         throw new RangeError("Invalid control point count " + count + ": QUADRATIC_BEZIER requires an odd amount of control points, at least three.")
+      } else if (curveType === CurveLineTypes.CUBIC_BEZIER && (count < 4 || (count - 1) % 3 !== 0)) {
+         throw new RangeError("Invalid control point count " + count + ": CUBIC_BEZIER requires 3n + 1 control points, at least four.")
+      } else if (curveType === CurveLineTypes.CATMULL_ROM && count < 2) {
+         throw new RangeError("Invalid control point count " + count + ": CATMULL_ROM requires at least two control points.")
+      } else if (Object.values(CurveLineTypes).indexOf(curveType) === -1) {
+         throw new TypeError("Invalid curveType: " + curveType)
+      }
    }
    /**
-    * Generates the entries of {@link Layer.edgeDirectory}, where each entry is a line that connects one vertice to another.
-    * 
-    * Use {@link Layer.getEdgeVoxels} to acess all edge voxels as a single array.
-    * 
-    * Also adds all voxels from the edge directory to the {@link Layer._fillVoxels}.
-    * 
-    * @returns reference to layer object, allows for method chaining.
+    * Evaluates a single segment of the curve.
+    * @param segment The control points of the segment. Three for a quadratic bezier, four for a cubic bezier, and four (previous, start, end, next) for catmull-rom.
+    * @param curveType Type of curve
+    * @param t How far along the segment, from 0 to 1
+    * @returns The unrounded XYZ point on the curve.
     */
-   generateEdges(): Layer {
-      this._fillVoxels = [];
-      this._edgeVoxels = [...this._verticesArray];
-      this.calculateBoundingBox();
-      let tempLine = new Line({
-         endPoints: [[0, 0, 0], [0, 0, 0]],
-         controller: this.controller,
-         origin: this.getOrigin()
-      });
-      let compositeMedian = new CompositeVoxelCollection({
-         origin: this.getOrigin(),
-         controller: this.controller,
-         variableNames: {
-            [tempLine.uuid]: tempLine,
-            [this.uuid]: this,
-         },
-         log: false
-      })
-      compositeMedian.setEquation(tempLine.uuid + compositeMedian.tokens.SUBTRACTION_OP + this.uuid);
-      this.edgeDirectory = {};
-      // If this shape has more then 1 vertice
-      // Loop through all the vertices
-      for (let i = 0; i < this._verticesArray.length; i++) {
-         // If we are at the last vertices in the list, draw back to the first one.
-         let startIndex = i;
-         let endIndex;
-         if (i + 1 === this._verticesArray.length) {
-            endIndex = 0;
+   static evaluateSegment(segment: Voxel[], curveType: CurveLineTypes, t: number): Voxel {
+      const u = 1 - t
+      return [0, 1, 2].map(i => {
+         const p = segment.map(n => n[i])
+         if (curveType === CurveLineTypes.QUADRATIC_BEZIER) {
+            return u * u * p[0] + 2 * u * t * p[1] + t * t * p[2]
+         } else if (curveType === CurveLineTypes.CUBIC_BEZIER) {
+            return u ** 3 * p[0] + 3 * u * u * t * p[1] + 3 * u * t * t * p[2] + t ** 3 * p[3]
          }
-         else {
-            endIndex = i + 1;
+         // Uniform catmull-rom between p[1] and p[2]
+         return 0.5 * (2 * p[1] + (p[2] - p[0]) * t + (2 * p[0] - 5 * p[1] + 4 * p[2] - p[3]) * t * t + (3 * p[1] - p[0] - 3 * p[2] + p[3]) * t ** 3)
+      }) as Voxel
+   }
+   /**
+    * Splits the {@link CurveLine._controlPoints} into the segments accepted by {@link CurveLine.evaluateSegment}.
+    *
+    * @remarks
+    * Catmull-rom segments require a point before the start and after the end, so the first and last control points are repeated.
+    *
+    * @returns Array of segments in path order
+    */
+   getSegments(): Voxel[][] {
+      const points = this._controlPoints
+      let segments: Voxel[][] = []
+      if (this.curveType === CurveLineTypes.QUADRATIC_BEZIER) {
+         for (let i = 0; i + 2 < points.length; i += 2) {
+            segments.push(points.slice(i, i + 3))
+         }
+      } else if (this.curveType === CurveLineTypes.CUBIC_BEZIER) {
+         for (let i = 0; i + 3 < points.length; i += 3) {
+            segments.push(points.slice(i, i + 4))
+         }
+      } else {
+         for (let i = 0; i + 1 < points.length; i++) {
+            segments.push([points[Math.max(0, i - 1)], points[i], points[i + 1], points[Math.min(points.length - 1, i + 2)]])
          }
-         let entryKey = `V${startIndex}V${endIndex}`;
-         tempLine.changeEndPoints([this._verticesArray[startIndex], this._verticesArray[endIndex]]);
-         tempLine.generateLine();
-         let lineFillVoxels = tempLine.getFillVoxels();
-         this.edgeDirectory[entryKey] = lineFillVoxels;
-         BaseObject.push2D(compositeMedian.interpretAST().getFillVoxels(), this._fillVoxels);
-         this.calculateBoundingBox();
       }
-      tempLine.delete();
-      compositeMedian.delete();
-      this._edgeVoxels = BaseObject.push2D(this._fillVoxels, []);
-      return this;
+      return segments
    }
    /**
-    * Uses the {@link Layer.sortedFillVoxelsDirectory} generated from the {@link Layer._fillVoxels} generated from {@link Layer.generateEdges} to fill in the shape.
-    * 
-    * Sets {@link Layer._fillVoxels} and calculautes bounding box.
-    * 
-    * @returns reference to layer object, allows for method chaining.
+    * Generates the curve from the {@link CurveLine._controlPoints}.
+    *
+    * Each segment is sampled twice per voxel of its control polygon length, which is always longer than the curve itself.
+    * The samples are rounded into {@link CurveLine._sampledPoints} and joined with {@link BaseObject.graph3DParametric}.
+    *
+    * The outputted {@link CurveLine._fillVoxels} are duplicate free and in path order.
+    *
+    * @returns reference to this object, allows for method chaining.
     */
-   fillPolygon(): Layer {
-      this._fillVoxels = [];
-      this.calculateBoundingBox();
-      let temporary2DSlice = new Layer({
-         verticesArray: [],
-         origin: this.getOrigin(),
-         controller: this.controller
-      });
-      for (let entry of Object.keys(this.sortedFillVoxelsDirectory)) {
-         let currentEntry = Number(entry);
-         let entryVoxels = this.sortedFillVoxelsDirectory[currentEntry];
-         temporary2DSlice.changeVertices(entryVoxels).generateEdges();
-         let targetPush = []
-         for (let lineKey of Object.keys(temporary2DSlice.edgeDirectory)) {
-            // pointBinarySearch
-            let targetLine = temporary2DSlice.edgeDirectory[lineKey];
-            targetLineLoop: for (let i = 1; i < targetLine.length - 1; i++) {
-               for (let j = 0; j < entryVoxels.length; j++) {
-                  if (JSON.stringify(targetLine[i]) === JSON.stringify(entryVoxels[j])) {
-                     continue targetLineLoop;
-                  }
-               }
-               for (let j = 0; j < targetPush.length; j++) {
-                  if (JSON.stringify(targetLine[i]) === JSON.stringify(targetPush[j])) {
-                     continue targetLineLoop;
-                  }
-               }
-               targetPush.push(targetLine[i])
-               this._fillVoxels.push([...targetLine[i]])
+   generateLine(): this {
+      this._fillVoxels = []
+      this._sampledPoints = []
+      for (let segment of this.getSegments()) {
+         let polygonLength = 0
+         for (let i = 0; i + 1 < segment.length; i++) {
+            polygonLength += Math.sqrt([0, 1, 2].reduce((prev, curr) => prev + (segment[i + 1][curr] - segment[i][curr]) ** 2, 0))
+         }
+         let steps = Math.max(1, Math.ceil(polygonLength * 2))
+         for (let step = 0; step <= steps; step++) {
+            let sample = CurveLine.evaluateSegment(segment, this.curveType, step / steps).map(n => Math.round(n) + 0) as Voxel
+            let previous = this._sampledPoints[this._sampledPoints.length - 1]
+            if (previous === undefined || !BaseObject.compare2d(previous, sample)) {
+               this._sampledPoints.push(sample)
             }
          }
       }
-      temporary2DSlice.delete();
-      return this;
+      let visited: Record<string, boolean> = {}
+      const addVoxel = (voxel: Voxel) => {
+         let key = voxel.join(",")
+         if (!visited[key]) {
+            visited[key] = true
+            this._fillVoxels.push([...voxel])
+         }
+      }
+      addVoxel(this._sampledPoints[0])
+      for (let i = 0; i + 1 < this._sampledPoints.length; i++) {
+         BaseObject.graph3DParametric(...this._sampledPoints[i], ...this._sampledPoints[i + 1]).forEach(addVoxel)
+      }
+      this.calculateBoundingBox()
+      return this
    }
    /**
-    * Compiles the {@link Layer.edgeDirectory} into a single 2D array
-    * @returns Array of all voxels that make up the shape.
+    * @returns The {@link CurveLine._controlPoints} with each {@link CurveLine._origin} and {@link CurveLine._transforms} applied via {@link BaseObject.placePoints}.
     */
-   getEdgeVoxels() {
-      return BaseObject.addOrigin(this._edgeVoxels, this._origin);
+   getVerticeVoxels(): Voxel[] {
+      return this.placePoints(this._controlPoints);
    }
    /**
-    * @returns the {@link Layer._verticesArray}, accounts for origin and is mutation free.
+    * @returns The {@link CurveLine._sampledPoints} with each {@link CurveLine._origin} and {@link CurveLine._transforms} applied via {@link BaseObject.placePoints}.
     */
-   getVerticeVoxels(): Voxel[] {
-      return BaseObject.addOrigin(this._verticesArray, this._origin);
+   getSampledVoxels(): Voxel[] {
+      return this.placePoints(this._sampledPoints);
+   }
+   /**
+    * Changes the current {@link CurveLine._controlPoints}, set them as the {@link CurveLine._fillVoxels}, calculautes required bounding box data.
+    * @param controlPoints New control points
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeControlPoints(controlPoints: Voxel[]): this {
+      CurveLine.validateControlPoints(controlPoints, this.curveType)
+      this._controlPoints = BaseObject.deepCopy(controlPoints)
+      this._sampledPoints = []
+      this._fillVoxels = [...this._controlPoints]
+      this.calculateBoundingBox()
+      return this
    }
    /**
+    * Scales the {@link CurveLine._controlPoints} around the pivot and generates the curve again.
     * @override
     */
-   delete() {
-      this.controller.removeID(this.uuid);
-      this._fillVoxels = [];
-      this._edgeVoxels = [];
-      this.calculateBoundingBox();
-      this.uuid = "";
+   scaleShape(factors: Voxel, pivot: Voxel): boolean {
+      this.changeControlPoints(BaseObject.scalePoints(this._controlPoints, factors, pivot.map((n, i) => n - this._origin[i]))).generateLine()
+      return true
    }
 }
 
-interface GroupRankingValue {
-   "i": [number, number],
-   "n": boolean
-}
-
-interface GroupRanking {
-   [key: string]: GroupRankingValue
-}
-
-/**
- * @remarks 
- * This type assertion is used for checking if a given string is a valid key of {@link SYNTAX_REGEX} 
- */
-type REGEX_NAME_KEYS = keyof typeof SYNTAX_REGEX;
-/**
- * @remarks 
- * This type assertion is used for checking if a given string is a valid key of {@link OPS} 
- */
-type OPS_TOKEN = keyof typeof OPS;
 /**
- * @remarks
- * This recursive type is used for the abstract syntax tree of various levels of embedded strings arrays. 
- * The deeper the level of a string array is equal to the order of presedence the operation should be interpeted by:
- * 
- * [["A","+","B"],"*","C"] is equal to (A+B)*C
- * 
- * This AST should be exeucuted by doing A+B first and then multiply by C. 
+ * The valid {@link Polyline} options.
  */
-type AST = (string | AST)[];
+export interface PolylineOptions {
+   "controller": UUIDController,
+   "origin": Voxel,
+   /**
+    * The vertices of the path in order. The last vertice is not connected back to the first.
+    */
+   "verticesArray": Voxel[],
+   /**
+    * If true, the voxel shared at the joint of two segments is only stored once, as is any voxel where the path crosses itself.
+    */
+   "removeDuplicates": boolean
+}
 
 /**
+ * Contains all of the data structures to generate an open path of lines through any amount of vertices.
+ *
  * @remarks
- * Contains all of the syntax tokens used by the {@link SetOperationsParser}.
+ * Unlike {@link Layer.generateEdges}, the last vertice is not connected back to the first, so the path is left open.
+ *
+ * Related:
+ *
+ * {@link Line}
+ *
+ * {@link PolylineOptions}
  */
-const SYNTAX_TOKENS = {
-   /**
-    * @remarks
-    * U+03A9
-    */
-   UNIVERSAL_SET: "Ω",
+export class Polyline extends BaseObject {
    /**
-    * @remarks
-    * U+2205
+    * The vertices of the path in order. Does not account for origin, use {@link Polyline.getVerticeVoxels}.
     */
-   NULL_SET: "∅",
+   _verticesArray: Voxel[]
    /**
-    * @remarks
-    * U+222A 
-    * 
-    * Not Latin Letter U with value U+0055
+    * Stores the voxels of each segment of the path, accounts for origin.
+    *
+    * The key is the vertice number in start to end format. For example, "V0V1" represents vertice index zero to index one from {@link Polyline._verticesArray}
     */
-   UNION_OP: "∪",
+   edgeDirectory: Record<string, Voxel[]>
    /**
-    * @remarks
-    * U+2229
+    * If true, the voxel shared at the joint of two segments is only stored once, as is any voxel where the path crosses itself.
     */
-   INTERSECTION_OP: "∩",
+   removeDuplicates: boolean
+   constructor(options: PolylineOptions) {
+      super({
+         controller: options.controller,
+         origin: options.origin,
+      })
+      this.controller.setReferenceEntry(this.uuid, this)
+      this._verticesArray = BaseObject.deepCopy(options.verticesArray)
+      this.removeDuplicates = options.removeDuplicates
+      this._fillVoxels = [...this._verticesArray]
+      this.calculateBoundingBox()
+      this.edgeDirectory = {}
+   }
    /**
-    * @remarks
-    * U+002D
+    * Generates the entries of {@link Polyline.edgeDirectory}, where each entry is a line that connects one vertice to the next via {@link BaseObject.graph3DParametric}.
+    *
+    * All of the segments are stored as the {@link Polyline._fillVoxels} in path order. When {@link Polyline.removeDuplicates} is true, each segment after the first starts one voxel later, as its first voxel is the end of the previous segment.
+    *
+    * @returns reference to this object, allows for method chaining.
     */
-   SUBTRACTION_OP: "-",
+   generateEdges(): this {
+      this._fillVoxels = []
+      this.edgeDirectory = {}
+      let visited: Record<string, boolean> = {}
+      for (let i = 0; i + 1 < this._verticesArray.length; i++) {
+         let segment = BaseObject.graph3DParametric(...this._verticesArray[i], ...this._verticesArray[i + 1])
+         if (this.removeDuplicates) {
+            segment = segment.filter(voxel => {
+               let key = voxel.join(",")
+               return visited[key] ? false : (visited[key] = true)
+            })
+         }
+         this.edgeDirectory[`V${i}V${i + 1}`] = BaseObject.addOrigin(segment, this._origin)
+         BaseObject.push2D(segment, this._fillVoxels)
+      }
+      if (this._verticesArray.length === 1) {
+         this._fillVoxels = [[...this._verticesArray[0]]]
+      }
+      this.calculateBoundingBox()
+      return this
+   }
    /**
-    * @remarks
-    * U+2295
+    * Changes the vertices, sets them as the {@link Polyline._fillVoxels}, resets the edge directory, calculates bounding boxes.
+    * @param verticesArray The new set of vertices
+    * @returns reference to this object, allows for method chaining.
     */
-   SYMM_DIFF_OP: "⊕",
+   changeVertices(verticesArray: Voxel[]): this {
+      this._verticesArray = BaseObject.deepCopy(verticesArray)
+      this._fillVoxels = [...this._verticesArray]
+      this.calculateBoundingBox()
+      this.edgeDirectory = {}
+      return this
+   }
    /**
-    * @remarks
-    * U+0021
+    * Scales the {@link Polyline._verticesArray} around the pivot and generates the edges again.
+    * @override
     */
-   NEGATION_OP: "!",
+   scaleShape(factors: Voxel, pivot: Voxel): boolean {
+      this.changeVertices(BaseObject.scalePoints(this._verticesArray, factors, pivot.map((n, i) => n - this._origin[i]))).generateEdges()
+      return true
+   }
    /**
-    * @remarks
-    * U+0028
+    * @returns the {@link Polyline._verticesArray}, accounts for origin and transforms, and is mutation free.
     */
-   OPEN_PER: "(",
+   getVerticeVoxels(): Voxel[] {
+      return this.placePoints(this._verticesArray);
+   }
+}
+
+/**
+ * Specifies the cross-section swept along the path of a {@link Tube}
+ */
+export enum TubeBrushTypes {
    /**
-    * @remarks
-    * U+0029
+    * A ball of voxels within the radius, creates a round cross-section with round ends.
     */
-   CLOSE_PER: ")",
+   BRUSH_SPHERE = "BRUSH_SPHERE",
    /**
-    * @remarks
-    * U+002D
+    * A square of voxels within the radius, turned to be perpendicular to each segment of the path. Creates a square cross-section with flat ends.
     */
-   IDENTATION: "-",
-   NOT_PLACE_HOLDER: "@"
-} as const
+   BRUSH_SQUARE = "BRUSH_SQUARE"
+}
 
 /**
- * @remarks
- * Holds the valid modes as accepted by the {@link SetOperationsParser.useRegex}
+ * The valid {@link Tube} options.
  */
-export enum SetOperationsParserAction {
+export interface TubeOptions {
+   "controller": UUIDController,
+   "origin": Voxel,
    /**
-    * @remarks
-    * This mode signifies to use the {@link RegExp.test} method upon the given string. 
+    * The vertices of the path in order, each vertice is connected to the next with a line. Two vertices make a single straight tube.
     */
-   TEST_MODE = 'TEST_MODE',
+   "verticesArray": Voxel[],
+   "brushType": TubeBrushTypes,
    /**
-    * @remarks
-    * This mode signifies to use the {@link String.match} method upon the given string. 
+    * The radius of the brush, zero creates a one voxel thick line.
     */
-   MATCH_MODE = 'MATCH_MODE',
+   "radius": number,
+   /**
+    * If the tube is a shell (hollow) or not (filled)
+    */
+   "shell": boolean,
+   /**
+    * If a shell tube is left open at the first and last vertices, such as a pipe. Default of false, which closes both ends. A tube of a single vertice is always closed.
+    */
+   "openEnds"?: boolean
 }
 
 /**
+ * Generates a thick line by sweeping a brush along the lines between vertices.
+ *
  * @remarks
- * Holds all of the {@link RegExp} used by {@link SetOperationsParser.validateEquation} to check for syntax errors and 
- * convert to a valid format for {@link SetOperationsParser.generateAST}.
+ * The sphere brush is stamped at every voxel of the path from {@link BaseObject.graph3DParametric}, so there are never gaps between steps.
+ * The square brush is swept along each segment with {@link Tube.sweepSquare}.
+ *
+ * Related:
+ *
+ * {@link Line}
+ *
+ * {@link Polyline}
+ *
+ * {@link TubeOptions}
  */
-const SYNTAX_REGEX = {
+export class Tube extends BaseObject {
    /**
-    * @remarks
-    * Regular expression to split an equation string into the sub-tokens: 
-    * 
-    * /\\!*\\(|\\)|\\!*[a-zΩ∅]+|[∩⊕∪-]/gi
-    * 
-    * Splits at either:
-    * 
-    * 1) Zero or more negations followed by a opening grouping
-    * 2) A closing grouping
-    * 3) Zero or more negations followed by a varaible name or default set 
-    * 4) A set operation
-    * 
-    * Flags:
-    * 
-    * 1) Global
-    * 2) Case Insensitive
+    * The vertices of the path in order. Does not account for origin, use {@link Tube.getVerticeVoxels}.
     */
-   "CONVERSION_REGEX": new RegExp(`\\${SYNTAX_TOKENS.NEGATION_OP}*\\${SYNTAX_TOKENS.OPEN_PER}|\\${SYNTAX_TOKENS.CLOSE_PER}|\\${SYNTAX_TOKENS.NEGATION_OP}*[a-z${SYNTAX_TOKENS.UNIVERSAL_SET}${SYNTAX_TOKENS.NULL_SET}0-9]+|[${SYNTAX_TOKENS.INTERSECTION_OP}${SYNTAX_TOKENS.SYMM_DIFF_OP}${SYNTAX_TOKENS.UNION_OP}${SYNTAX_TOKENS.SUBTRACTION_OP}]`, "gi"),
+   _verticesArray: Voxel[]
+   brushType: TubeBrushTypes
    /**
- * @remarks
- * Regular expression to check for invalid negation of a closing grouping: 
- * 
- * /\\!+\\)/gi
- * 
- * Splits at:
- * 
- * 1) One or more negations followed by an closing grouping
- * 
- * Flags:
- * 
- * 1) Global
- * 2) Case Insensitive
- */
-   "INVALID_NEGATION_CLOSE_PER_REGEX": new RegExp(`\\${SYNTAX_TOKENS.NEGATION_OP}+\\${SYNTAX_TOKENS.CLOSE_PER}`, "gi"),
+    * The radius of the brush.
+    */
+   radius: number
    /**
-     * @remarks
-     * Regular expression to check for opening grouping
-     * 
-     * /\\(/gi
-     * 
-     * Splits at:
-     * 
-     * 1) Each and every opening grouping
-     * 
-     * Flags:
-     * 
-     * 1) Global
-     * 2) Case Insensitive
-     */
-   "CLOSE_PER_COUNT_REGEX": new RegExp(`\\${SYNTAX_TOKENS.CLOSE_PER}`, "gi"),
+    * Defines if the tube is a shell (hollow) or not (filled)
+    */
+   shell: boolean
    /**
- * @remarks
- * Regular expression to check for opening grouping
- * 
- * /\\)/gi
- * 
- * Splits at:
- * 
- * 1) Each and every closing grouping
- * 
- * Flags:
- * 
- * 1) Global
- * 2) Case Insensitive
- */
-   "OPEN_PER_COUNT_REGEX": new RegExp(`\\${SYNTAX_TOKENS.OPEN_PER}`, "gi"),
+    * Defines if a shell tube is open at the first and last vertices
+    */
+   openEnds: boolean
+   constructor(options: TubeOptions) {
+      super({
+         controller: options.controller,
+         origin: options.origin,
+      })
+      this.controller.setReferenceEntry(this.uuid, this)
+      Ellipsoid.validateRadii([options.radius])
+      this._verticesArray = BaseObject.deepCopy(options.verticesArray)
+      this.brushType = options.brushType
+      this.radius = options.radius
+      this.shell = options.shell
+      this.openEnds = options.openEnds ?? false
+      this._fillVoxels = [...this._verticesArray]
+      this.calculateBoundingBox()
+   }
    /**
-   * @remarks
-   * Regular expression to check for invalid equation endings
-   * 
-   * /[(!∩⊕∪-]$/gi
-   * 
-   * Splits at a ending of:
-   * 
-   * 1) Opening grouping, set operation
-   * 
-   * Flags:
-   * 
-   * 1) Global
-   * 2) Case Insensitive
-   */
-   "INVALID_ENDING_REGEX": new RegExp(`[${SYNTAX_TOKENS.OPEN_PER}${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.INTERSECTION_OP}${SYNTAX_TOKENS.SYMM_DIFF_OP}${SYNTAX_TOKENS.UNION_OP}${SYNTAX_TOKENS.SUBTRACTION_OP}]$`),
+    * @param brushType Type of brush
+    * @param radius Radius of the brush
+    * @returns Every offset from the center of the brush that is part of the brush, in world axes. The square brush is an axis aligned cube, as used for a path without direction.
+    */
+   static getBrushOffsets(brushType: TubeBrushTypes, radius: number): Voxel[] {
+      let offsets: Voxel[] = []
+      let reach = Math.floor(radius)
+      for (let x = -reach; x <= reach; x++) {
+         for (let y = -reach; y <= reach; y++) {
+            for (let z = -reach; z <= reach; z++) {
+               if (brushType === TubeBrushTypes.BRUSH_SQUARE || x * x + y * y + z * z <= radius * radius) {
+                  offsets.push([x, y, z])
+               }
+            }
+         }
+      }
+      return offsets
+   }
    /**
+    * Sweeps a square perpendicular to a segment from start to end, including a square end of the radius past both ends so that segments join at corners.
+    *
     * @remarks
-    * Regular expression to check for invalid negation
-    * 
-    * /\\!+[-⊕]/gi
-    * 
-    * Splits at:
-    * 
-    * 1) One or more negations followed by a subtraction or symmertic difference
-    * 
-    * Note: These operations can only be negated if the encapsulated grouping is negated
-    * !(a-b) instead of (a!-b)
-    * 
-    * Flags:
-    * 
-    * 1) Global
-    * 2) Case Insensitive
+    * Points are sampled every half voxel across and along the square prism and rounded, so the square is gap free at any angle.
+    * A segment along an axis gives the same voxels as the axis aligned cube from {@link Tube.getBrushOffsets}.
+    *
+    * @param start XYZ start of the segment
+    * @param end XYZ end of the segment
+    * @param radius Half the width of the square, rounded down to a whole voxel.
+    * @returns The voxels of the swept square, may contain duplicates.
     */
-   "INVALID_OP_DIRECT_NEGATE_REGEX": new RegExp(`\\${SYNTAX_TOKENS.NEGATION_OP}+[${SYNTAX_TOKENS.SUBTRACTION_OP}${SYNTAX_TOKENS.SYMM_DIFF_OP}]`, "gi"),
+   static sweepSquare(start: Voxel, end: Voxel, radius: number): Voxel[] {
+      const reach = Math.floor(radius)
+      const direction = [0, 1, 2].map(i => end[i] - start[i])
+      const length = Math.sqrt(direction[0] ** 2 + direction[1] ** 2 + direction[2] ** 2)
+      if (length === 0) {
+         return Tube.getBrushOffsets(TubeBrushTypes.BRUSH_SQUARE, radius).map(offset => offset.map((n, i) => n + start[i]) as Voxel)
+      }
+      const unit = direction.map(n => n / length)
+      const cross = (a: number[], b: number[]) => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]]
+      // The sides of the square, from the world axis that is least parallel to the segment.
+      const leastParallel = [0, 0, 0]
+      leastParallel[[0, 1, 2].reduce((prev, curr) => Math.abs(unit[curr]) < Math.abs(unit[prev]) ? curr : prev)] = 1
+      const sideU = cross(unit, leastParallel)
+      const sideULength = Math.sqrt(sideU[0] ** 2 + sideU[1] ** 2 + sideU[2] ** 2)
+      const u = sideU.map(n => n / sideULength)
+      const v = cross(unit, u)
+      const alongSteps = Math.ceil(2 * (length + 2 * reach))
+      // Removes floating point noise, so points exactly between two voxels round the same way as an axis aligned segment.
+      const snap = (n: number) => Math.round(Math.round(n * 1e9) / 1e9) + 0
+      let voxels: Voxel[] = []
+      for (let step = 0; step <= alongSteps; step++) {
+         let along = -reach + step * (length + 2 * reach) / alongSteps
+         for (let across = -reach; across <= reach; across += 0.5) {
+            for (let up = -reach; up <= reach; up += 0.5) {
+               voxels.push([0, 1, 2].map(i => snap(start[i] + along * unit[i] + across * u[i] + up * v[i])) as Voxel)
+            }
+         }
+      }
+      return voxels
+   }
    /**
-   * @remarks
-   * Regular expression to check for invalid junction
-   * 
-   * /[Ω∅)a-z]+\\(|\\(\\)|[∩⊕∪-]+\\)|[Ω∅]{2,}/gi
-   * 
-   * Splits at either:
-   *
-   * 1) A varaible or defualt set followed by an opening grouping
-   * 2) A opening grouping followed by closing grouping
-   * 3) A operation followed by an closing grouping
-   * 4) Two or more defualt sets next to each other
-   * 
-   * Flags:
-   * 
-   * 1) Global
-   * 2) Case Insensitive
-   */
-   "INVALID_JUNCTION_REGEX": new RegExp(`[${SYNTAX_TOKENS.UNIVERSAL_SET}${SYNTAX_TOKENS.NULL_SET}${SYNTAX_TOKENS.CLOSE_PER}a-z]+\\${SYNTAX_TOKENS.OPEN_PER}|\\${SYNTAX_TOKENS.OPEN_PER}\\${SYNTAX_TOKENS.CLOSE_PER}|[${SYNTAX_TOKENS.INTERSECTION_OP}${SYNTAX_TOKENS.SYMM_DIFF_OP}${SYNTAX_TOKENS.UNION_OP}${SYNTAX_TOKENS.SUBTRACTION_OP}]+\\${SYNTAX_TOKENS.CLOSE_PER}|[${SYNTAX_TOKENS.UNIVERSAL_SET}${SYNTAX_TOKENS.NULL_SET}]{2,}`, "gi"),
+    * Stamps the sphere brush at every voxel of a path, or sweeps the square brush along each segment.
+    * @param vertices XYZ vertices of the path
+    * @returns Directory of the tube voxels, keyed by "x,y,z".
+    */
+   #sweepPath(vertices: Voxel[]): Record<string, Voxel> {
+      let pathVoxels: Voxel[] = vertices.length === 1 ? [[...vertices[0]]] : []
+      for (let i = 0; i + 1 < vertices.length; i++) {
+         BaseObject.push2D(BaseObject.graph3DParametric(...vertices[i], ...vertices[i + 1]), pathVoxels)
+      }
+      let tubeVoxels: Record<string, Voxel> = {}
+      if (this.brushType === TubeBrushTypes.BRUSH_SQUARE && pathVoxels.length > 1) {
+         for (let i = 0; i + 1 < vertices.length; i++) {
+            for (let voxel of Tube.sweepSquare(vertices[i], vertices[i + 1], this.radius)) {
+               tubeVoxels[voxel.join(",")] = voxel
+            }
+         }
+      } else {
+         let offsets = Tube.getBrushOffsets(this.brushType, this.radius)
+         for (let pathVoxel of pathVoxels) {
+            for (let offset of offsets) {
+               let voxel: Voxel = [pathVoxel[0] + offset[0], pathVoxel[1] + offset[1], pathVoxel[2] + offset[2]]
+               tubeVoxels[voxel.join(",")] = voxel
+            }
+         }
+      }
+      return tubeVoxels
+   }
    /**
-  * @remarks
-  * Checks if a given character is a valid character as defined by static syntax.
-  * This expression is ran against each character in the string using {@link RegExp.test()} syntax.
-  * 
-  * /\\s|[a-z]|[Ω∅∪∩⊕!()-]/gi
-  * 
-  * Splits at either:
-  *
-  * 1) White space
-  * 2) a-z varaible name
-  * 3) Operation, negation, or groupings
-  * 
-  * Flags:
-  * 
-  * 1) Global
-  * 2) Case Insensitive
-  */
-   "VALID_CHAR_REGEX": new RegExp(`\\s|[a-z]|[${SYNTAX_TOKENS.UNIVERSAL_SET}${SYNTAX_TOKENS.NULL_SET}${SYNTAX_TOKENS.UNION_OP}${SYNTAX_TOKENS.INTERSECTION_OP}${SYNTAX_TOKENS.SYMM_DIFF_OP}${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.OPEN_PER}${SYNTAX_TOKENS.CLOSE_PER}${SYNTAX_TOKENS.SUBTRACTION_OP}]|\\d`, "gi")
-} as const
-/**
-    * @remarks
-    * The rankings of all of the equation syntax. The program decides what operations to do first based on ranking and then on left to right order
+    * Continues a path straight past its first and last vertices, used to open the ends of a shell tube.
+    * @param vertices XYZ vertices of the path
+    * @param distance Minimum distance to continue past each end
+    * @returns The path with a vertice added before the first and after the last. Ends without a direction, where every vertice is the same, are not continued.
+    */
+   static extendPath(vertices: Voxel[], distance: number): Voxel[] {
+      const extend = (end: Voxel, others: Voxel[]): Voxel[] => {
+         const previous = others.find(n => n[0] !== end[0] || n[1] !== end[1] || n[2] !== end[2])
+         if (previous === undefined) {
+            return []
+         }
+         let direction = [0, 1, 2].map(i => end[i] - previous[i])
+         // Whole multiples of the direction keep the added vertice on whole voxels.
+         let multiple = Math.ceil(distance / Math.sqrt(direction[0] ** 2 + direction[1] ** 2 + direction[2] ** 2))
+         return [[0, 1, 2].map(i => end[i] + direction[i] * multiple) as Voxel]
+      }
+      return [...extend(vertices[0], vertices.slice(1)), ...vertices, ...extend(vertices[vertices.length - 1], vertices.slice(0, -1).reverse())]
+   }
+   /**
+    * Generates the tube by stamping the sphere brush at every voxel of the path, or sweeping the square brush along each segment.
     *
-    * 1) Opening Grouping: 3
-    * 2) Closing Grouping: 3
-    * 3) Negation: 2
-    * 4) Symmertic Difference: 1
-    * 5) Subtraction, Intersection, Union: 0
-    * 
-   */
-const OPS = {
-   [SYNTAX_TOKENS.OPEN_PER]: 3,
-   [SYNTAX_TOKENS.CLOSE_PER]: 3,
-   [SYNTAX_TOKENS.NEGATION_OP]: 2,
-   [SYNTAX_TOKENS.SYMM_DIFF_OP]: 1,
-   [SYNTAX_TOKENS.SUBTRACTION_OP]: 0,
-   [SYNTAX_TOKENS.INTERSECTION_OP]: 0,
-   [SYNTAX_TOKENS.UNION_OP]: 0
-} as const
+    * If {@link Tube.shell} is true, only voxels with a face neighbor outside of the tube are kept. This includes the ends of the tube, unless {@link Tube.openEnds} is true.
+    * Open ends are found by treating the path as if it continued straight past its first and last vertices, see {@link Tube.extendPath}.
+    *
+    * Stores with fillVoxels, re-calculautes bounding box.
+    *
+    * @returns reference to this object, allows for method chaining.
+    */
+   generateTube(): this {
+      let tubeVoxels = this.#sweepPath(this._verticesArray)
+      let insideVoxels = this.shell && this.openEnds && this._verticesArray.length > 1 ? this.#sweepPath(Tube.extendPath(this._verticesArray, Math.floor(this.radius) + 2)) : tubeVoxels
+      this._fillVoxels = []
+      for (let voxel of Object.values(tubeVoxels)) {
+         if (this.shell && BaseObject.getFaceNeighbors(voxel).every(n => insideVoxels[n.join(",")] !== undefined)) {
+            continue;
+         }
+         this._fillVoxels.push(voxel)
+      }
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Changes the vertices, sets them as the {@link Tube._fillVoxels}, calculates bounding boxes.
+    * @param verticesArray The new set of vertices
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeVertices(verticesArray: Voxel[]): this {
+      this._verticesArray = BaseObject.deepCopy(verticesArray)
+      this._fillVoxels = [...this._verticesArray]
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Scales the {@link Tube._verticesArray} around the pivot and the radius by the factor, then generates the tube again.
+    *
+    * Only the same factor on every axis is supported, since the brush cannot be stretched.
+    * @override
+    */
+   scaleShape(factors: Voxel, pivot: Voxel): boolean {
+      if (factors[0] !== factors[1] || factors[1] !== factors[2]) {
+         return false
+      }
+      this.changeVertices(BaseObject.scalePoints(this._verticesArray, factors, pivot.map((n, i) => n - this._origin[i])))
+      this.radius = this.radius * factors[0]
+      this.generateTube()
+      return true
+   }
+   /**
+    * @returns the {@link Tube._verticesArray}, accounts for origin and transforms, and is mutation free.
+    */
+   getVerticeVoxels(): Voxel[] {
+      return this.placePoints(this._verticesArray);
+   }
+}
+
 /**
- * A final all static parser to convert discrete math equations into valid abstract syntax trees {@link AST}.
+ * Three XYZ corners of a triangle. Unlike a {@link Voxel}, the values do not need to be whole numbers.
  */
-export class SetOperationsParser {
+export type Triangle = [Voxel, Voxel, Voxel]
+
+/**
+ * A final all static parser to read the triangles from a STL file, in either the ASCII or binary format.
+ */
+export class STLParser {
    /**
     * @remarks
     * Private constructor to support final class functionality
@@ -1942,1375 +2744,4733 @@ export class SetOperationsParser {
    private constructor() { }
    /**
     * @remarks
-    * Retrives a mutation-free copy of the {@link SYNTAX_REGEX}
-    * @returns A dictionary where the key string is the name of the regex value.
+    * A binary STL is an 80 byte header, a 4 byte triangle count, and 50 bytes per triangle. A file that matches this size exactly is treated as binary, otherwise it is decoded as text.
+    * Some ASCII files are exported with a header starting in "solid", so the header alone can not be trusted.
+    * @param data The contents of the file
+    * @returns Every triangle in the file
+    * @throws {@link TypeError} If no triangles could be read.
     */
-   static getAllRegex(): Record<string, RegExp> {
-      return Object.keys(SYNTAX_REGEX).reduce<Record<string, RegExp>>((prev, key) => {
-         return prev[key] = new RegExp(SYNTAX_REGEX[key as REGEX_NAME_KEYS].source, "gi"), prev;
-      }, {});
+   static parse(data: string | ArrayBuffer | Uint8Array): Triangle[] {
+      if (typeof data === "string") {
+         return STLParser.parseASCII(data)
+      }
+      let bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+      if (bytes.byteLength >= 84) {
+         let view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+         if (84 + view.getUint32(80, true) * 50 === bytes.byteLength) {
+            return STLParser.parseBinary(bytes)
+         }
+      }
+      return STLParser.parseASCII(new TextDecoder().decode(bytes))
    }
    /**
-    * @remarks
-    * Retrieves the order of operations presidence of a given token in reference to other valid tokens
-    * @param token A valid key within {@link OPS}.
-    * @returns The value inclusively between 3 and 0 of the tokens order of operations.
+    * @param text Contents of an ASCII STL file
+    * @returns Every triangle in the file, read from each group of three "vertex x y z" lines.
+    * @throws {@link TypeError} If no triangles are found, or the vertex count is not a multiple of three.
     */
-   static accessOPS(token: keyof typeof OPS): 3 | 2 | 1 | 0 {
-      return OPS[token];
+   static parseASCII(text: string): Triangle[] {
+      let vertices: Voxel[] = []
+      let vertexRegex = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/gi
+      let match: RegExpExecArray | null
+      while ((match = vertexRegex.exec(text)) !== null) {
+         vertices.push([Number(match[1]), Number(match[2]), Number(match[3])])
+      }
+      if (vertices.length === 0 || vertices.length % 3 !== 0 || vertices.some(v => v.some(n => !Number.isFinite(n)))) {
+         throw new TypeError("Unable to parse ASCII STL: expected a multiple of three numeric vertices but found " + vertices.length + ".")
+      }
+      let triangles: Triangle[] = []
+      for (let i = 0; i < vertices.length; i += 3) {
+         triangles.push([vertices[i], vertices[i + 1], vertices[i + 2]])
+      }
+      return triangles
    }
    /**
-    * @remarks
-    * Retrieves a mutation-free copy of the {@link OPS}
-    * @returns A dictionary where the key string is the token, and the value is the presdience.
+    * @param bytes Contents of a binary STL file
+    * @returns Every triangle in the file. The stored normals and attribute bytes are ignored.
+    * @throws {@link TypeError} If the file is smaller than its triangle count requires.
     */
-   static getOPS(): Record<string, number> {
-      return Object.assign({}, OPS);
-   }
+   static parseBinary(bytes: Uint8Array): Triangle[] {
+      let view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+      let count = bytes.byteLength >= 84 ? view.getUint32(80, true) : 0
+      if (count === 0 || 84 + count * 50 > bytes.byteLength) {
+         throw new TypeError("Unable to parse binary STL: " + bytes.byteLength + " bytes can not hold " + count + " triangles.")
+      }
+      let triangles: Triangle[] = []
+      for (let i = 0; i < count; i++) {
+         // Skip the 12 byte normal
+         let offset = 84 + i * 50 + 12
+         let triangle: Voxel[] = []
+         for (let j = 0; j < 3; j++) {
+            triangle.push([
+               view.getFloat32(offset + j * 12, true),
+               view.getFloat32(offset + j * 12 + 4, true),
+               view.getFloat32(offset + j * 12 + 8, true)
+            ])
+         }
+         triangles.push(triangle as Triangle)
+      }
+      return triangles
+   }
+}
+
+/**
+ * The valid {@link TriangleMesh} options.
+ */
+export interface TriangleMeshOptions {
+   "controller": UUIDController,
+   "origin": Voxel,
    /**
-    * @remarks
-    * The valid tokens for the {@link SetOperationsParser} as defined by {@link SYNTAX_TOKENS}
-    * @returns A dictionary where the key string is the name of the token, and the value is the token string.
+    * The triangles of the mesh in model units, such as the output of {@link STLParser.parse}
     */
-   static getSymbols(): Record<string, string> {
-      return {
-         UNIVERSAL_SET: SYNTAX_TOKENS.UNIVERSAL_SET,
-         NULL_SET: SYNTAX_TOKENS.NULL_SET,
-         UNION_OP: SYNTAX_TOKENS.UNION_OP,
-         INTERSECTION_OP: SYNTAX_TOKENS.INTERSECTION_OP,
-         SUBTRACTION_OP: SYNTAX_TOKENS.SUBTRACTION_OP,
-         SYMM_DIFF_OP: SYNTAX_TOKENS.SYMM_DIFF_OP,
-         NEGATION_OP: SYNTAX_TOKENS.NEGATION_OP,
-         OPEN_PER: SYNTAX_TOKENS.OPEN_PER,
-         CLOSE_PER: SYNTAX_TOKENS.CLOSE_PER,
-         IDENTATION: SYNTAX_TOKENS.IDENTATION,
+   "triangles": Triangle[],
+   /**
+    * The size of one voxel in model units. A mesh point at p becomes the voxel round(p / voxelSize).
+    */
+   "voxelSize": number,
+   /**
+    * If true the inside of the mesh is filled, which requires a watertight (closed) mesh. Otherwise only the surface is generated.
+    */
+   "solid": boolean
+}
+
+/**
+ * Voxelizes a triangle mesh, such as an imported STL file, so it can be used with every other shape.
+ *
+ * @example
+ * let mesh = new TriangleMesh({ controller, origin: [0, 0, 0], triangles: STLParser.parse(fileBuffer), voxelSize: 0.5, solid: true }).generateMesh()
+ */
+export class TriangleMesh extends BaseObject {
+   /**
+    * The triangles of the mesh in model units. Does not account for origin.
+    */
+   _triangles: Triangle[]
+   /**
+    * The size of one voxel in model units.
+    */
+   voxelSize: number
+   /**
+    * Defines if the inside of the mesh is filled or only the surface is generated.
+    */
+   solid: boolean
+   constructor(options: TriangleMeshOptions) {
+      super({
+         controller: options.controller,
+         origin: options.origin,
+      })
+      this.controller.setReferenceEntry(this.uuid, this)
+      TriangleMesh.validateVoxelSize(options.voxelSize)
+      this._triangles = BaseObject.deepCopy(options.triangles)
+      this.voxelSize = options.voxelSize
+      this.solid = options.solid
+      this._fillVoxels = []
+      this.calculateBoundingBox()
+   }
+   /**
+    * @param voxelSize Size to check
+    * @throws {@link RangeError} If the size is not greater than zero.
+    */
+   static validateVoxelSize(voxelSize: number): void {
+      if (!(voxelSize > 0)) {
+         throw new RangeError("Invalid voxelSize " + voxelSize + ": must be greater than zero.")
       }
    }
    /**
-    * @remarks
-    * Allows for use of the private syntax error checking RegExp outside of the {@link SetOperationsParser.validateEquation} context.
-    * The {@link SYNTAX_REGEX} are mutable due to the global flag. By using this method, the {@link RegExp.lastIndex} is reset each call 
-    * to prevent mutations across mutiple calls. Otherwise, pattern matching would return alternating results.
-    * @param name The name of the regular expression from {@link SYNTAX_REGEX}.
-    * @param str The string that will be pattern matched or tested against the RegExp.
-    * @param action The mode to specify either a matching to return a string array, or a test mode to return a boolean. Modes as per {@link SetOperationsParserAction}
-    * @returns 
+    * Rasterizes the surface of a triangle by sampling it every half voxel with barycentric coordinates and rounding each sample.
+    * @param triangle Triangle already scaled into voxel units
+    * @param output Directory to add the voxels to, where the key is the joined voxel.
     */
-   static useRegex(name: REGEX_NAME_KEYS, str: string, action: keyof typeof SetOperationsParserAction) {
-      let regex: RegExp = new RegExp(SYNTAX_REGEX[`${name}`].source, "gi");
-      let matchResult: string[] | null;
-      let boolResult = false;
-      if (action === SetOperationsParserAction.TEST_MODE) {
-         boolResult = regex.test(str);
-         regex.lastIndex = 0;
-         return boolResult;
-      } else if (action === SetOperationsParserAction.MATCH_MODE) {
-         matchResult = str.match(regex);
-         regex.lastIndex = 0;
-         return matchResult === null ? [] : matchResult
-      } else {
-         throw new TypeError("Invalid Action: " + action)
+   static rasterizeTriangle(triangle: Triangle, output: Record<string, Voxel>): void {
+      let longestEdge = 0
+      for (let i = 0; i < 3; i++) {
+         let a = triangle[i]
+         let b = triangle[(i + 1) % 3]
+         longestEdge = Math.max(longestEdge, Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2))
+      }
+      let steps = Math.max(1, Math.ceil(longestEdge * 2))
+      for (let i = 0; i <= steps; i++) {
+         for (let j = 0; i + j <= steps; j++) {
+            let u = i / steps
+            let v = j / steps
+            let w = 1 - u - v
+            let voxel = [0, 1, 2].map(k => Math.round(triangle[0][k] * w + triangle[1][k] * u + triangle[2][k] * v) + 0) as Voxel
+            output[voxel.join(",")] = voxel
+         }
       }
    }
    /**
-    * @remarks
-    * Takes in a string equation, checks for syntax errors via the {@link SYNTAX_REGEX}, reduces reduces complexity via basic identities, 
-    * returns an array of tokens in {@link SetOperationsParser.generateAST} format via {@link SYNTAX_REGEX.CONVERSION_REGEX} 
-    * @param str Equation in a string format.
-    * @returns Valid AST generation format for input into {@link SetOperationsParser.generateAST}.
-    * @throws {@link TypeError} If a syntax error is encountered. 
+    * Generates the voxels of the mesh.
+    *
+    * The surface comes from {@link TriangleMesh.rasterizeTriangle}. When {@link TriangleMesh.solid} is true, a ray is cast along the Z axis through the center of every XY column,
+    * and the voxels between each pair of crossings (even-odd rule) are filled. The ray is nudged off of the exact column center so it never passes directly through a triangle edge.
+    *
+    * Stores with fillVoxels, re-calculautes bounding box.
+    *
+    * @returns reference to this object, allows for method chaining.
     */
-   static validateEquation(str: string): string[] {
-      // Filter whitespace
-      str = str.split("").filter(x => !/\s/.test(x)).join("")
-
-      /**
-       * @remarks
-       * Used to store tokens, both for comparison and error throwing, throughout the validation process.
-       */
-      let errorTokens: string[] | boolean;
-
-      // Invalid characters are those not a-zA-Z and are not static symbols
-      for (let i = 0; i < str.length; i++) {
-         errorTokens = SetOperationsParser.useRegex("VALID_CHAR_REGEX", str[i], SetOperationsParserAction.TEST_MODE);
-         if (!errorTokens) {
-            throw new TypeError(`VALID_CHAR_REGEX | Unable to validate equationString "${str}": Invalid token ${str[i]}`)
+   generateMesh(): this {
+      let meshVoxels: Record<string, Voxel> = {}
+      let columnCrossings: Record<string, number[]> = {}
+      const nudge = [1.234e-7, 2.345e-7]
+      for (let sourceTriangle of this._triangles) {
+         let triangle = sourceTriangle.map(v => v.map(n => n / this.voxelSize)) as Triangle
+         TriangleMesh.rasterizeTriangle(triangle, meshVoxels)
+         if (!this.solid) {
+            continue;
+         }
+         const [a, b, c] = triangle
+         let area = (b[0] - a[0]) * (c[1] - a[1]) - (c[0] - a[0]) * (b[1] - a[1])
+         if (area === 0) {
+            // The triangle is parallel to the ray
+            continue;
+         }
+         for (let x = Math.ceil(Math.min(a[0], b[0], c[0])); x <= Math.floor(Math.max(a[0], b[0], c[0])); x++) {
+            for (let y = Math.ceil(Math.min(a[1], b[1], c[1])); y <= Math.floor(Math.max(a[1], b[1], c[1])); y++) {
+               let px = x + nudge[0]
+               let py = y + nudge[1]
+               let u = ((px - a[0]) * (c[1] - a[1]) - (c[0] - a[0]) * (py - a[1])) / area
+               let v = ((b[0] - a[0]) * (py - a[1]) - (px - a[0]) * (b[1] - a[1])) / area
+               if (u < 0 || v < 0 || u + v > 1) {
+                  continue;
+               }
+               let key = x + "," + y
+               columnCrossings[key] = columnCrossings[key] ?? []
+               columnCrossings[key].push(a[2] + u * (b[2] - a[2]) + v * (c[2] - a[2]))
+            }
          }
       }
-
-      errorTokens = SetOperationsParser.useRegex("INVALID_NEGATION_CLOSE_PER_REGEX", str, SetOperationsParserAction.TEST_MODE);
-
-      if (errorTokens instanceof Array && errorTokens.length > 0) {
-         throw new TypeError(`INVALID_NEGATION_CLOSE_PER_REGEX | Unable to validate equationString "${str}": Cannot pre negate "${SYNTAX_TOKENS.NEGATION_OP}" closing grouping syntax "${SYNTAX_TOKENS.CLOSE_PER}" with tokens "${errorTokens[0]}" `)
+      for (let key of Object.keys(columnCrossings)) {
+         let [x, y] = key.split(",").map(Number)
+         let crossings = columnCrossings[key].sort((a, b) => a - b)
+         for (let i = 0; i + 1 < crossings.length; i += 2) {
+            for (let z = Math.ceil(crossings[i]); z <= Math.floor(crossings[i + 1]); z++) {
+               meshVoxels[x + "," + y + "," + z] = [x, y, z]
+            }
+         }
       }
+      this._fillVoxels = Object.values(meshVoxels)
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Changes the triangles (mutation free copy), wipes the {@link TriangleMesh._fillVoxels}, calculautes required bounding box data.
+    * @param triangles New triangles in model units
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeTriangles(triangles: Triangle[]): this {
+      this._triangles = BaseObject.deepCopy(triangles)
+      this._fillVoxels = []
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Changes the voxel size, wipes the {@link TriangleMesh._fillVoxels}, calculautes required bounding box data.
+    * @param voxelSize New size of one voxel in model units
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeVoxelSize(voxelSize: number): this {
+      TriangleMesh.validateVoxelSize(voxelSize)
+      this.voxelSize = voxelSize
+      this._fillVoxels = []
+      this.calculateBoundingBox()
+      return this
+   }
+}
 
+/**
+ * Specifies how {@link Layer.fillPolygon} decides which voxels are inside of the outline
+ */
+export enum LayerFillRules {
+   /**
+    * A voxel is inside if a ray from it crosses the outline an odd amount of times. Overlapping parts of a self-intersecting outline are left empty.
+    */
+   "FILL_RULE_EVEN_ODD" = "FILL_RULE_EVEN_ODD",
+   /**
+    * A voxel is inside if the outline winds around it a nonzero amount of times. Overlapping parts of a self-intersecting outline are filled.
+    */
+   "FILL_RULE_NONZERO" = "FILL_RULE_NONZERO"
+}
 
+/**
+ * Specifies what {@link Layer.fillPolygon} does when the vertices of a {@link Layer} are not on one plane
+ */
+export enum LayerNonPlanarModes {
+   /**
+    * {@link Layer.fillPolygon} throws a RangeError if a vertice is too far from the plane of the polygon.
+    */
+   "NON_PLANAR_ERROR" = "NON_PLANAR_ERROR",
+   /**
+    * {@link Layer.fillPolygon} fills the polygon on its best fitting plane, as if every vertice was moved onto it.
+    */
+   "NON_PLANAR_PROJECT" = "NON_PLANAR_PROJECT"
+}
 
-      let cper = SetOperationsParser.useRegex("CLOSE_PER_COUNT_REGEX", str, SetOperationsParserAction.MATCH_MODE);
-      let oper = SetOperationsParser.useRegex("OPEN_PER_COUNT_REGEX", str, SetOperationsParserAction.MATCH_MODE);
-      if (oper instanceof Array && cper instanceof Array && cper.length !== oper.length) {
-         throw new TypeError(`CLOSE_PER_COUNT_REGEX, OPEN_PER_COUNT_REGEX | Unable to validate equationString "${str}": unequal amount of starting and ending grouping syntax`)
-      }
+/**
+ * Options for the {@link Layer} constructor.
+ */
+export interface LayerOptions {
+   "controller": UUIDController,
+   "origin": Voxel,
+   "verticesArray": Voxel[],
+   /**
+    * Vertices of each hole within the polygon, which are left empty by {@link Layer.fillPolygon}. Default of no holes.
+    */
+   "holesArray"?: Voxel[][],
+   /**
+    * The rule used by {@link Layer.fillPolygon}, default of FILL_RULE_EVEN_ODD.
+    */
+   "fillRule"?: LayerFillRules,
+   /**
+    * What {@link Layer.fillPolygon} does with vertices that are not on one plane, default of NON_PLANAR_ERROR.
+    */
+   "nonPlanarMode"?: LayerNonPlanarModes
+}
 
-      errorTokens = SetOperationsParser.useRegex("INVALID_ENDING_REGEX", str, SetOperationsParserAction.MATCH_MODE)
+/**
+ * Shared options for the {@link Layer} factories that rasterize a shape within an axis aligned plane, such as {@link Layer.createCircle}.
+ *
+ * @remarks
+ * The 2D shape is drawn on the two axes that are not the plane axis, where the first {@link Point} value is placed on the lower axis and the second on the higher. For a plane axis of 1 (Y), the shape is drawn on X and Z.
+ */
+export interface LayerPlaneShapeOptions {
+   "controller": UUIDController,
+   "origin": Voxel,
+   /**
+    * The center of the shape. Its value on the plane axis is the coordinate of the plane.
+    */
+   "center": Voxel,
+   /**
+    * The index (0, 1 or 2) of the {@link Voxel} axis perpendicular to the plane.
+    */
+   "planeAxis": number
+}
 
-      if (errorTokens instanceof Array && errorTokens.length > 0) {
-         throw new TypeError(`INVALID_ENDING_REGEX | Unable to validate equationString "${str}": Ends with operator, negation or opening grouping syntax token: "${errorTokens}"`);
-      }
+/**
+ * Options for {@link Layer.createCircle}
+ */
+export interface LayerCircleOptions extends LayerPlaneShapeOptions {
+   "radius": number
+}
 
+/**
+ * Options for {@link Layer.createEllipse}
+ */
+export interface LayerEllipseOptions extends LayerPlaneShapeOptions {
+   /**
+    * The radius along the first and second plane axes.
+    */
+   "radii": Point
+}
 
-      errorTokens = SetOperationsParser.useRegex("INVALID_OP_DIRECT_NEGATE_REGEX", str, SetOperationsParserAction.MATCH_MODE)
+/**
+ * Options for {@link Layer.createArc}
+ */
+export interface LayerArcOptions extends LayerPlaneShapeOptions {
+   "radius": number,
+   /**
+    * Starting angle in degrees, measured counter-clockwise from the first plane axis.
+    */
+   "startAngle": number,
+   /**
+    * Ending angle in degrees, measured counter-clockwise from the first plane axis.
+    */
+   "endAngle": number,
+   /**
+    * If true the arc is closed through the center (pie slice), otherwise it is closed with a straight chord between its end points.
+    */
+   "sector": boolean
+}
 
-      if (errorTokens instanceof Array && errorTokens.length > 0) {
-         throw new TypeError(`INVALID_OP_DIRECT_NEGATE_REGEX | Unable to validate equationString "${str}": Cannot directly negate symmetric difference or subtraction operator "${errorTokens}"`)
-      }
+/**
+ * Options for {@link Layer.createRoundedRectangle}
+ */
+export interface LayerRoundedRectangleOptions extends LayerPlaneShapeOptions {
+   /**
+    * The distance from the center to the sides along the first and second plane axes.
+    */
+   "halfSize": Point,
+   /**
+    * The radius of the four corners. Zero creates a rectangle with sharp corners.
+    */
+   "cornerRadius": number
+}
 
-      errorTokens = SetOperationsParser.useRegex("INVALID_JUNCTION_REGEX", str, SetOperationsParserAction.MATCH_MODE)
+/**
+ * Options for {@link Layer.createRegularPolygon}
+ */
+export interface LayerRegularPolygonOptions extends LayerPlaneShapeOptions {
+   /**
+    * The number of sides, at least three.
+    */
+   "sides": number,
+   /**
+    * The distance from the center to each vertice (circumradius).
+    */
+   "radius": number,
+   /**
+    * Angle in degrees of the first vertice, measured counter-clockwise from the first plane axis.
+    */
+   "rotation": number
+}
 
-      if (errorTokens instanceof Array && errorTokens.length > 0) {
-         throw new TypeError(`INVALID_JUNCTION_REGEX | Unable to validate equationString "${str}": Invalid Junction between two tokens "${errorTokens}"`)
-      }
-      /* 
-        Replace negation operations, Optimization
-      */
-      str = str.replaceAll(`${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.NEGATION_OP}`, "")
-      str = str.replaceAll(`${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.INTERSECTION_OP}`, `${SYNTAX_TOKENS.UNION_OP}`)
-      str = str.replaceAll(`${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.UNION_OP}`, `${SYNTAX_TOKENS.INTERSECTION_OP}`)
-      str = str.replaceAll(`${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.UNIVERSAL_SET}`, `${SYNTAX_TOKENS.NULL_SET}`)
-      str = str.replaceAll(`${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.NULL_SET}`, `${SYNTAX_TOKENS.UNIVERSAL_SET}`)
-      // Remove the grouping if they are the first and last elements in the string
-      if (oper instanceof Array && cper instanceof Array && cper.length === 1 && oper.length === 1 && str[0] === SYNTAX_TOKENS.OPEN_PER && str[str.length - 1] === SYNTAX_TOKENS.CLOSE_PER) {
-         str = str.replace(`${SYNTAX_TOKENS.OPEN_PER}`, "").replace(`${SYNTAX_TOKENS.CLOSE_PER}`, "");
-      }
-      return SetOperationsParser.useRegex("CONVERSION_REGEX", str, SetOperationsParserAction.MATCH_MODE) as string[];
-   }
+/**
+ * Options for {@link Layer.createStar}
+ */
+export interface LayerStarOptions extends LayerPlaneShapeOptions {
    /**
-    * @remarks
-    * Distributes the negation operation to a AST, recursively goes down all levels of the AST. Any branches that start with "NOT" as the first token in the expression will not be distrubuted to.
-    * @param eq The AST
-    * @param log boolean to siginify if the program should log the process to the console.
-    * @param depth Level of depth for this current recursive call. Can be any number 0 and above.
-    * @returns The negated AST.
+    * The number of outer points, at least two.
     */
-   static _distrubuteNegate(eq: AST, log: boolean, depth: number): AST {
-      let str = "";
-      for (let i = 0; i < depth; i++) {
-         str += SYNTAX_TOKENS.IDENTATION;
-      }
-      if (log) {
-         console.log(str + "Distrubting negation to: " + JSON.stringify(eq))
-      }
-      for (let i = 0; i < eq.length; i++) {
-         if (eq[i] === SYNTAX_TOKENS.SYMM_DIFF_OP) {
-            throw new TypeError("Processing error: can not directly negate SYMM_DIFF_OP: " + eq[i])
-         }
-         if (Array.isArray(eq[i]) && eq[i] as AST) {
-            if (log) {
-               console.log(str + " Activiated distribution to sub-AST")
-            }
-            eq[i] = SetOperationsParser._distrubuteNegate(eq[i] as AST, log, depth)
-         } else if (eq[i] === SYNTAX_TOKENS.UNION_OP) {
-            eq[i] = SYNTAX_TOKENS.INTERSECTION_OP
-         } else if (eq[i] === SYNTAX_TOKENS.INTERSECTION_OP) {
-            eq[i] = SYNTAX_TOKENS.UNION_OP
-         } else if (eq[i] === SYNTAX_TOKENS.NEGATION_OP) {
-            eq[i] = ""
-         } else if (typeof eq[i] === 'string' && (eq[i] as string).split("")[0] === SYNTAX_TOKENS.NEGATION_OP) {
-            eq[i] = eq[i].slice(1, eq[i].length)
-         } else if (eq[i] === SYNTAX_TOKENS.SUBTRACTION_OP) {
-            if (log) {
-               console.log(str + "Subtraction negation detected, switching to union and halting")
+   "points": number,
+   /**
+    * The distance from the center to each outer point.
+    */
+   "radius": number,
+   /**
+    * The distance from the center to each inner vertice between two points.
+    */
+   "innerRadius": number,
+   /**
+    * Angle in degrees of the first outer point, measured counter-clockwise from the first plane axis.
+    */
+   "rotation": number
+}
+
+/**
+ * Stores data structures required to create a 3D polygon in 3D space.
+ */
+export class Layer extends BaseObject {
+   /**
+    * One or more vertices that make up this polygon. Order of vertices decides how the shape will be generated.
+    * 
+    * Use {@link Layer.getVerticeVoxels} to access vertices because this does not account for origin.
+    */
+   _verticesArray: Voxel[]
+   /**
+    * One list of vertices per hole in the polygon, see {@link Layer._verticesArray}.
+    *
+    * Use {@link Layer.getHoleVoxels} to access holes because this does not account for origin.
+    */
+   _holesArray: Voxel[][]
+   /**
+    * Stores the voxels on the edge of the polygon. 
+    * 
+    * The key is the vertice number in start to end format. For example, "V0V1" represents vertice index zero to index one from {@link _verticesArray}
+    *
+    * Edges of holes are prefixed by the hole number. For example, "H1V2V3" represents vertice index two to index three of hole index one from {@link _holesArray}
+    */
+   edgeDirectory: Record<string, Voxel[]>
+   _edgeVoxels: Voxel[]
+   /**
+    * Decides which voxels are inside the polygon when it is filled, see {@link LayerFillRules}.
+    */
+   fillRule: LayerFillRules
+   /**
+    * Decides what happens when the vertices are not on one plane when the polygon is filled, see {@link LayerNonPlanarModes}.
+    */
+   nonPlanarMode: LayerNonPlanarModes
+   /**
+    * The furthest a vertice can be from the plane of the polygon, in voxels, and still be planar.
+    *
+    * Vertices of a tilted polygon are rounded onto whole voxels, which moves them up to about 0.87 voxels from the plane.
+    */
+   static planeTolerance: number = 1
+   constructor(options: LayerOptions) {
+      super({
+         controller: options.controller,
+         origin: options.origin
+      })
+      this.controller.setReferenceEntry(this.uuid, this)
+      this._verticesArray = BaseObject.deepCopy(options.verticesArray)
+      this._holesArray = BaseObject.deepCopy(options.holesArray ?? [])
+      this._fillVoxels = [...this._verticesArray, ...this._holesArray.flat() as Voxel[]]
+      this.calculateBoundingBox()
+      this.edgeDirectory = {}
+      this._edgeVoxels = [...this._fillVoxels];
+      this.fillRule = options.fillRule ?? LayerFillRules.FILL_RULE_EVEN_ODD
+      this.nonPlanarMode = options.nonPlanarMode ?? LayerNonPlanarModes.NON_PLANAR_ERROR
+   }
+   /**
+    * Changes the rule used by the next {@link Layer.fillPolygon}.
+    * @param fillRule The new fill rule
+    * @returns reference to layer object, allows for method chaining.
+    */
+   changeFillRule(fillRule: LayerFillRules): Layer {
+      this.fillRule = fillRule
+      return this
+   }
+   /**
+    * Changes what the next {@link Layer.fillPolygon} does with vertices that are not on one plane.
+    * @param nonPlanarMode The new mode
+    * @returns reference to layer object, allows for method chaining.
+    */
+   changeNonPlanarMode(nonPlanarMode: LayerNonPlanarModes): Layer {
+      this.nonPlanarMode = nonPlanarMode
+      return this
+   }
+   /**
+    * Changes the shapes vertices. 
+    * 
+    * @remarks
+    * Changes fill voxels to the vertices, resets the edge directory, calculates bounding boxes.
+    * 
+    * @param verticesArray The new set of vertices
+    * @param holesArray The new set of vertices for each hole, default of no holes.
+    * 
+    * @returns reference to layer object, allows for method chaining.
+    */
+   changeVertices(verticesArray: Voxel[], holesArray: Voxel[][] = []): Layer { // done
+      this._verticesArray = BaseObject.deepCopy(verticesArray)
+      this._holesArray = BaseObject.deepCopy(holesArray)
+      this._fillVoxels = [...this._verticesArray, ...this._holesArray.flat() as Voxel[]]
+      this.calculateBoundingBox()
+      this.edgeDirectory = {}
+      this._edgeVoxels = [...this._fillVoxels];
+      return this
+   }
+   /**
+    * Scales the vertices and holes around the pivot and generates the edges again. If the layer was filled, it is filled again with {@link Layer.fillPolygon}.
+    * @override
+    */
+   scaleShape(factors: Voxel, pivot: Voxel): boolean {
+      const localPivot = pivot.map((n, i) => n - this._origin[i])
+      // Filling only ever adds voxels to the edges
+      const filled = this._fillVoxels.length > this._edgeVoxels.length
+      this.changeVertices(BaseObject.scalePoints(this._verticesArray, factors, localPivot), this._holesArray.map(hole => BaseObject.scalePoints(hole, factors, localPivot))).generateEdges()
+      if (filled) {
+         this.fillPolygon()
+      }
+      return true
+   }
+   /**
+    * Generates the entries of {@link Layer.edgeDirectory}, where each entry is a line that connects one vertice to another.
+    * 
+    * Use {@link Layer.getEdgeVoxels} to acess all edge voxels as a single array.
+    * 
+    * Also adds all voxels from the edge directory to the {@link Layer._fillVoxels}.
+    * 
+    * @returns reference to layer object, allows for method chaining.
+    */
+   generateEdges(): Layer {
+      this._fillVoxels = [];
+      this._edgeVoxels = [...this._verticesArray, ...this._holesArray.flat() as Voxel[]];
+      this.calculateBoundingBox();
+      let tempLine = new Line({
+         endPoints: [[0, 0, 0], [0, 0, 0]],
+         controller: this.controller,
+         origin: this.getOrigin()
+      });
+      let compositeMedian = new CompositeVoxelCollection({
+         origin: this.getOrigin(),
+         controller: this.controller,
+         variableNames: {
+            [tempLine.uuid]: tempLine,
+            [this.uuid]: this,
+         },
+         log: false
+      })
+      compositeMedian.setEquation(tempLine.uuid + compositeMedian.tokens.SUBTRACTION_OP + this.uuid);
+      this.edgeDirectory = {};
+      // The outer ring has no key prefix, each hole is prefixed by its index.
+      let rings: [string, Voxel[]][] = [["", this._verticesArray], ...this._holesArray.map((n, i) => [`H${i}`, n] as [string, Voxel[]])];
+      for (let [prefix, ring] of rings) {
+         // If this shape has more then 1 vertice
+         // Loop through all the vertices
+         for (let i = 0; i < ring.length; i++) {
+            // If we are at the last vertices in the list, draw back to the first one.
+            let startIndex = i;
+            let endIndex;
+            if (i + 1 === ring.length) {
+               endIndex = 0;
             }
-            // Cuts off last operation to satifsy !(a-b) = !a U b;
-            eq[i] = SYNTAX_TOKENS.UNION_OP;
-            return eq;
-         } else if (eq[i] === SYNTAX_TOKENS.UNIVERSAL_SET) {
-            eq[i] = SYNTAX_TOKENS.NULL_SET;
-         } else if (eq[i] === SYNTAX_TOKENS.NULL_SET) {
-            eq[i] = SYNTAX_TOKENS.UNIVERSAL_SET;
-         } else {
-            eq[i] = [SYNTAX_TOKENS.UNIVERSAL_SET, SYNTAX_TOKENS.SUBTRACTION_OP, eq[i]]
-            console.log(str + "Setting to Universal minus " + eq[i]);
+            else {
+               endIndex = i + 1;
+            }
+            let entryKey = `${prefix}V${startIndex}V${endIndex}`;
+            tempLine.changeEndPoints([ring[startIndex], ring[endIndex]]);
+            tempLine.generateLine();
+            let lineFillVoxels = tempLine.getFillVoxels();
+            this.edgeDirectory[entryKey] = lineFillVoxels;
+            BaseObject.push2D(compositeMedian.interpretAST().getFillVoxels(), this._fillVoxels);
+            this.calculateBoundingBox();
          }
       }
-      return eq;
+      tempLine.delete();
+      compositeMedian.delete();
+      this._edgeVoxels = BaseObject.push2D(this._fillVoxels, []);
+      return this;
    }
    /**
-    * @remarks
-    * Generate and returns a abstract syntax tree {@link AST} that represents the presidence of solving the equation.
-    * @param eq The AST at this level. The inital input is an array of strings from {@link SetOperationsParser.validateEquation}.
-    * @param log boolean to siginify if the program should log the process to the console, default value of false.
-    * @param depth Level of depth for this current recursive call. Can be any number 0 (default) and above initally.
-    * @returns When the call stack collapses, the method will return an AST. During the recursive process, the method could flatten various levels of the AST
-    * to simplify expressions resulting in a string return type.
+    * Fills in the shape with a scanline fill in the plane of the vertices, following {@link Layer.fillRule}. Works for concave and self-intersecting shapes.
+    *
+    * Holes are left empty. Keeps the edge voxels generated from {@link Layer.generateEdges}.
+    *
+    * Sets {@link Layer._fillVoxels} and calculautes bounding box.
+    *
+    * @returns reference to layer object, allows for method chaining.
+    * @throws {@link RangeError} If {@link Layer.nonPlanarMode} is NON_PLANAR_ERROR and a vertice or hole vertice is further than {@link Layer.planeTolerance} from the plane of the other vertices of the polygon.
     */
-   static generateAST(eq: AST, log: boolean, depth = 0): AST | string {
-      let string = ""
-      if (log) {
-         for (let i = 0; i <= depth; i++) {
-            string += SYNTAX_TOKENS.IDENTATION
+   fillPolygon(): Layer {
+      if (this.nonPlanarMode === LayerNonPlanarModes.NON_PLANAR_ERROR) {
+         // Each vertice is measured against the plane of the other vertices, so a vertice far from the plane can not tilt the plane towards itself.
+         const tested: [Voxel, Voxel[]][] = [
+            ...this._verticesArray.map((vertice, i): [Voxel, Voxel[]] => [vertice, this._verticesArray.filter((n, j) => j !== i)]),
+            ...(this._holesArray.flat() as Voxel[]).map((vertice): [Voxel, Voxel[]] => [vertice, this._verticesArray])
+         ]
+         let furthest: { vertice: Voxel, distance: number } = { vertice: [0, 0, 0], distance: 0 }
+         for (let [vertice, others] of tested) {
+            let plane: { normal: Voxel, offset: number }
+            try {
+               plane = Layer.fitPlane(others)
+            } catch (error) {
+               // Collinear vertices are only edges, such as the rest of a triangle, which any vertice is planar with.
+               continue
+            }
+            let distance = Math.abs(plane.normal[0] * vertice[0] + plane.normal[1] * vertice[1] + plane.normal[2] * vertice[2] - plane.offset)
+            if (distance > furthest.distance) {
+               furthest = { vertice, distance }
+            }
+         }
+         if (furthest.distance > Layer.planeTolerance) {
+            throw new RangeError("Layer " + this.uuid + " is not planar: vertice " + JSON.stringify(furthest.vertice) + " is " + furthest.distance.toFixed(2) + " voxels from the plane of the other vertices. Use NON_PLANAR_PROJECT to fill it on the best fitting plane.")
          }
-         console.log(string + "Input EQ: " + JSON.stringify(eq));
-         console.log(string + "Length of EQ: " + (eq.length))
-         depth += 1
       }
-      /**
-   * @remarks
-   * The index of the variable on the left side of the operation.
-   */
-      let startIndex: number = -1;
-      /**
-       * @remarks
-       * The index of the variable on the right side of the operation.
-       */
-      let endIndex: number = -1;
-      /**
-      * @remarks
-      * The index of the operation.
-      */
-      let opIndex: number = -1;
-      /**
-       * @remarks
-       * The value of this operation as stored in {@link OPS} accessiable via {@link SetOperationsParser.accessOPS}
-       */
-      let indexValue: number = -1;
-      /**
-       * @remarks
-       * Stores the indicies of all of the opening grouping tokens, used to decide {@link perStartIndex}.
-       */
-      let startPerArray: number[] = [];
-      /**
-       * @remarks
-       * Stores the indicies of all of the closing grouping tokens, used to decide {@link perEndIndex}.
-       */
-      let endPerArray: number[] = [];
-      /**
-       * @remarks
-       * Stores the indicies of all of the negated opening grouping tokens, has overlap with {@link startPerArray}.
-       */
-      let negatedPerArray: number[] = [];
-      /** 
-       * @remarks
-       * Stores the indicies of all of the symmertic difference operations. This is important, because if a SD is within a negated
-       * grouping, special conversion processes need to take place before {@link SetOperationsParser._distrubuteNegate} 
-       * is called upon that section of the AST.
-       */
-      let symmPerArray: number[] = [];
-
-      if (eq.length <= 2) {
-         if (log) {
-            console.log(string + "Equation length is <= 2, returning equation")
+      let fillVoxels: Record<string, Voxel> = {}
+      for (let voxel of [...this._edgeVoxels, ...Layer.scanlineFill(this._verticesArray, this.fillRule, this._holesArray)]) {
+         fillVoxels[voxel.join(",")] = voxel
+      }
+      this._fillVoxels = Object.values(fillVoxels)
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Finds the plane that best fits the vertices of a polygon, through the average of the vertices with the normal from {@link LayerPathExtrude.polygonNormal}.
+    * @param vertices XYZ vertices in order
+    * @returns Unit normal, and the offset where every point p on the plane has normal · p = offset
+    * @throws {@link RangeError} If the vertices are collinear or there are less than three.
+    */
+   static fitPlane(vertices: number[][]): { normal: Voxel, offset: number } {
+      let normal = LayerPathExtrude.polygonNormal(vertices as Voxel[])
+      let offset = vertices.reduce((prev, curr) => prev + normal[0] * curr[0] + normal[1] * curr[1] + normal[2] * curr[2], 0) / vertices.length
+      return { normal, offset }
+   }
+   /**
+    * Finds the voxels inside a polygon via a scanline fill.
+    *
+    * @remarks
+    * The polygon is projected onto the plane of the two axes where it is largest. Each row of that plane is crossed with every edge, and the voxels between the
+    * crossings are kept according to the fill rule. The remaining coordinate of each voxel is taken from the plane of the polygon, found by {@link Layer.fitPlane}.
+    *
+    * Where the rounded plane steps up or down between two neighbouring voxels, or between a voxel and the outline next to it, a voxel is added so that they share a face. This keeps tilted polygons watertight.
+    *
+    * @param vertices XYZ vertices in order, which may be unrounded
+    * @param fillRule Decides which voxels are inside
+    * @param holes Vertices of each hole, within the plane of the polygon. They are wound opposite to the polygon so that both fill rules leave them empty.
+    * @returns Voxels inside the polygon, without duplicates. Voxels exactly on the outline may be missing, so combine with the edges for a closed shape.
+    * Empty if there are less than three vertices or they are collinear.
+    */
+   static scanlineFill(vertices: number[][], fillRule: LayerFillRules, holes: number[][][] = []): Voxel[] {
+      let normal: Voxel
+      let planeOffset: number
+      try {
+         ({ normal, offset: planeOffset } = Layer.fitPlane(vertices))
+      } catch (error) {
+         // The polygon is a line or point, so there is nothing inside it.
+         return []
+      }
+      const dropIndex = [0, 1, 2].reduce((prev, curr) => Math.abs(normal[curr]) > Math.abs(normal[prev]) ? curr : prev, 0)
+      const keptIndices = [0, 1, 2].filter(n => n !== dropIndex)
+      let rings = [vertices]
+      for (let hole of holes) {
+         try {
+            let holeNormal = LayerPathExtrude.polygonNormal(hole as Voxel[])
+            rings.push(holeNormal[0] * normal[0] + holeNormal[1] * normal[1] + holeNormal[2] * normal[2] > 0 ? [...hole].reverse() : hole)
+         } catch (error) {
+            // A hole that is a line or point has no inside to remove.
          }
-         return [...eq]
       }
-
-      // The first step is to gather metadata about the AST.
-
-      for (let i = 0; i < eq.length; i++) {
-         let token = eq[i]
-         if (log) {
-            console.log(string + "Checking Token: " + JSON.stringify(token))
+      const projectedRings = rings.map(ring => ring.map(n => keptIndices.map(i => n[i])))
+      const projected = projectedRings[0]
+      const minRow = Math.ceil(Math.min(...projected.map(n => n[1])))
+      const maxRow = Math.floor(Math.max(...projected.map(n => n[1])))
+      const planeHeight = (column: number, row: number) => Math.round((planeOffset - normal[keptIndices[0]] * column - normal[keptIndices[1]] * row) / normal[dropIndex]) + 0
+      // The rounded value of the remaining axis for each filled column and row.
+      let heights: Record<string, number> = {}
+      for (let row = minRow; row <= maxRow; row++) {
+         // Each crossing is where an edge passes the row, with +1 for upwards edges and -1 for downwards. The lower end of an edge counts, the upper does not.
+         let crossings: [number, number][] = []
+         for (let ring of projectedRings) {
+            for (let i = 0; i < ring.length; i++) {
+               let a = ring[i]
+               let b = ring[(i + 1) % ring.length]
+               if ((a[1] <= row) !== (b[1] <= row)) {
+                  crossings.push([a[0] + (row - a[1]) * (b[0] - a[0]) / (b[1] - a[1]), b[1] > a[1] ? 1 : -1])
+               }
+            }
          }
-         // Remove double or more negation
-
-         if (!Array.isArray(token) && token.startsWith("!!")) {
-            if (log) {
-               console.log(string + "Token starts with n >= 2 negation: " + token)
+         crossings.sort((first, second) => first[0] - second[0])
+         let winding = 0
+         for (let i = 0; i + 1 < crossings.length; i++) {
+            winding += fillRule === LayerFillRules.FILL_RULE_NONZERO ? crossings[i][1] : 1
+            let inside = fillRule === LayerFillRules.FILL_RULE_NONZERO ? winding !== 0 : winding % 2 === 1
+            if (!inside) {
+               continue
             }
-            // If the negation amount is odd, make it a single negation. Otherwise, no negation.
-            let testToken = token.split("");
-            token = (testToken.slice(0, testToken.length - 1).length % 2 === 0 ? "" : SYNTAX_TOKENS.NEGATION_OP) + testToken[testToken.length - 1];
-            if (log) {
-               console.log(string + "Converted Token starts with n >= 2 negation: " + token)
+            for (let column = Math.ceil(crossings[i][0]); column <= Math.floor(crossings[i + 1][0]); column++) {
+               heights[column + "," + row] = planeHeight(column, row)
             }
-            eq[i] = token;
-         }
-
-         if (token === SYNTAX_TOKENS.SYMM_DIFF_OP) {
-            symmPerArray.push(i);
          }
-
-         // Gather negated grouping information.
-         if (!Array.isArray(token) && token.startsWith(SYNTAX_TOKENS.NEGATION_OP)) {
-            if (log) {
-               console.log(string + "Token starts with negation")
+      }
+      let uniqueVoxels: Record<string, Voxel> = {}
+      const place = (column: number, row: number, height: number) => {
+         let voxel = [0, 0, 0] as Voxel
+         voxel[keptIndices[0]] = column
+         voxel[keptIndices[1]] = row
+         voxel[dropIndex] = height
+         uniqueVoxels[voxel.join(",")] = voxel
+      }
+      for (let key of Object.keys(heights)) {
+         let [column, row] = key.split(",").map(Number)
+         place(column, row, heights[key])
+         // The plane is projected on the axes where it is largest, so neighbouring heights differ by at most one.
+         for (let neighbor of [(column + 1) + "," + row, column + "," + (row + 1)]) {
+            if (heights[neighbor] !== undefined && heights[neighbor] !== heights[key]) {
+               place(column, row, heights[neighbor])
             }
-            token = token.split("")
-            if (token[1] === SYNTAX_TOKENS.OPEN_PER) {
-               if (log) {
-                  console.log(string + "Token is negating open Grouping")
-               }
-               negatedPerArray.push(i)
-            }
-            /*
-               * 1) This does not mutate the original eq equation, 
-               * Only changes the value of the token to exclude the negation: "!(" is changed to "(" locally only within the loop.
-               * This allows for startPerArray to also pick it up using an "token === SYNTAX_TOKENS.OPEN_PER" comaparision.
-               * 2) We also do this because typeScript is not smart enough to recongize that the "!Array.isArray(token)" guarding block
-               * is preventing any arrays (AST) from entering this section of code. 
-               * To TypeScript, any use of eq[i] can be either an AST or string, 
-               * regardless of the actual value at that index and any guarding block it is witihin.
-               * The solution is type asserstion as an key of OPS, while choosing a set numerical value (token[i] as OPS_TOKEN doesn't work)
-            */
-            token = token[1] as OPS_TOKEN;
-            if (!OPS.hasOwnProperty(token)) {
-               eq[i] = [SYNTAX_TOKENS.UNIVERSAL_SET, SYNTAX_TOKENS.SUBTRACTION_OP, token]
-               if (log) {
-                  console.log(string + "Activated Token is negating set: " + JSON.stringify(eq[i]))
-               }
+         }
+         // Neighbours outside of the fill are on the outline, such as the top row which the crossings skip, so the step to the edge voxels is joined the same way.
+         for (let [neighborColumn, neighborRow] of [[column - 1, row], [column + 1, row], [column, row - 1], [column, row + 1]]) {
+            if (heights[neighborColumn + "," + neighborRow] === undefined && planeHeight(neighborColumn, neighborRow) !== heights[key]) {
+               place(column, row, planeHeight(neighborColumn, neighborRow))
             }
          }
-         if (token === SYNTAX_TOKENS.OPEN_PER) {
-            startPerArray.push(i)
+      }
+      return Object.values(uniqueVoxels)
+   }
+   /**
+    * Compiles the {@link Layer.edgeDirectory} into a single 2D array
+    * @returns Array of all voxels that make up the shape, accounts for origin and transforms via {@link BaseObject.placeVoxels}.
+    */
+   getEdgeVoxels() {
+      return this.placeVoxels(this._edgeVoxels);
+   }
+   /**
+    * @returns the {@link Layer._verticesArray}, accounts for origin and transforms, and is mutation free.
+    */
+   getVerticeVoxels(): Voxel[] {
+      return this.placePoints(this._verticesArray);
+   }
+   /**
+    * @returns the {@link Layer._holesArray}, accounts for origin and transforms, and is mutation free.
+    */
+   getHoleVoxels(): Voxel[][] {
+      return this._holesArray.map(n => this.placePoints(n));
+   }
+   /**
+    * @override
+    */
+   delete() {
+      this.controller.removeID(this.uuid);
+      this._fillVoxels = [];
+      this._edgeVoxels = [];
+      this.calculateBoundingBox();
+      this.uuid = "";
+   }
+   /**
+    * Places 2D points, relative to the center, onto an axis aligned plane as described by {@link LayerPlaneShapeOptions}.
+    * @param points XY points relative to the center
+    * @param center The center of the shape, its value on the plane axis is the coordinate of the plane.
+    * @param planeAxis Index of the axis perpendicular to the plane
+    * @returns The points as voxels
+    * @throws {@link RangeError} If the plane axis is not 0, 1 or 2.
+    */
+   static planePointsToVoxels(points: Point[], center: Voxel, planeAxis: number): Voxel[] {
+      if ([0, 1, 2].indexOf(planeAxis) === -1) {
+         throw new RangeError("Invalid planeAxis " + planeAxis + ": must be 0, 1 or 2.")
+      }
+      const planeAxes = [0, 1, 2].filter(n => n !== planeAxis)
+      return points.reduce<Voxel[]>((prev, curr) => {
+         let voxel: Voxel = [...center]
+         voxel[planeAxes[0]] += curr[0]
+         voxel[planeAxes[1]] += curr[1]
+         return prev.push(voxel), prev
+      }, [])
+   }
+   /**
+    * Rasterizes the outline of an ellipse centered on [0, 0] using the midpoint ellipse algorithm. A circle is an ellipse with equal radii.
+    *
+    * @remarks
+    * The first quadrant is calculated in two regions, where the slope of the curve is above and below -1, and mirrored into the other three quadrants.
+    *
+    * @link https://en.wikipedia.org/wiki/Midpoint_circle_algorithm
+    *
+    * @param radii Radius along each axis, rounded to the nearest whole number.
+    * @returns Duplicate free outline points sorted counter-clockwise by {@link LayerConvexExtrude.polarSort} from the positive first axis.
+    * @throws {@link RangeError} If either rounded radius is less than one.
+    */
+   static midpointEllipsePoints(radii: Point): Point[] {
+      const rx = Math.round(radii[0])
+      const ry = Math.round(radii[1])
+      if (rx < 1 || ry < 1) {
+         throw new RangeError("Invalid radii " + JSON.stringify(radii) + ": each radius must be at least one voxel.")
+      }
+      let points: Record<string, Point> = {}
+      const plot = (x: number, y: number) => {
+         for (let point of [[x, y], [-x, y], [x, -y], [-x, -y]] as Point[]) {
+            points[point.join(",")] = point
          }
-         else if (token == SYNTAX_TOKENS.CLOSE_PER) {
-            endPerArray.push(i)
+      }
+      const rx2 = rx * rx
+      const ry2 = ry * ry
+      let x = 0
+      let y = ry
+      let dx = 0
+      let dy = 2 * rx2 * y
+      // Region one, slope above -1
+      let d1 = ry2 - rx2 * ry + 0.25 * rx2
+      while (dx < dy) {
+         plot(x, y)
+         x++
+         dx += 2 * ry2
+         if (d1 < 0) {
+            d1 += dx + ry2
+         } else {
+            y--
+            dy -= 2 * rx2
+            d1 += dx - dy + ry2
          }
-         /*
-         This IS a set operation token
-         AND
-         Either {
-           Index value IS undefined
-           OR
-           This token's index value is GREATER than the previous stored index value
+      }
+      // Region two, slope below -1
+      let d2 = ry2 * (x + 0.5) ** 2 + rx2 * (y - 1) ** 2 - rx2 * ry2
+      while (y >= 0) {
+         plot(x, y)
+         y--
+         dy -= 2 * rx2
+         if (d2 > 0) {
+            d2 += rx2 - dy
+         } else {
+            x++
+            dx += 2 * ry2
+            d2 += dx - dy + rx2
          }
-         AND NOT {
-            A symmertic difference operater AND followed by an negated opening group
+      }
+      return LayerConvexExtrude.polarSort(Object.values(points), [0, 0])
+   }
+   /**
+    * Creates a layer whose vertices are every voxel on the outline of a circle, so {@link Layer.generateEdges} traces the true curve instead of a faceted polygon.
+    * @param options {@link LayerCircleOptions}
+    * @returns A new layer, edges are not yet generated.
+    */
+   static createCircle(options: LayerCircleOptions): Layer {
+      return Layer.createEllipse({
+         controller: options.controller,
+         origin: options.origin,
+         center: options.center,
+         planeAxis: options.planeAxis,
+         radii: [options.radius, options.radius]
+      })
+   }
+   /**
+    * Creates a layer whose vertices are every voxel on the outline of an ellipse, via {@link Layer.midpointEllipsePoints}.
+    * @param options {@link LayerEllipseOptions}
+    * @returns A new layer, edges are not yet generated.
+    */
+   static createEllipse(options: LayerEllipseOptions): Layer {
+      return new Layer({
+         controller: options.controller,
+         origin: options.origin,
+         verticesArray: Layer.planePointsToVoxels(Layer.midpointEllipsePoints(options.radii), options.center, options.planeAxis)
+      })
+   }
+   /**
+    * Creates a layer whose vertices are every voxel on a circular arc from the start angle counter-clockwise to the end angle.
+    *
+    * @remarks
+    * Since a layer is always closed, the arc is closed by either a chord or two radii via {@link LayerArcOptions.sector}.
+    *
+    * @param options {@link LayerArcOptions}
+    * @returns A new layer, edges are not yet generated.
+    */
+   static createArc(options: LayerArcOptions): Layer {
+      const normalize = (angle: number) => ((angle % 360) + 360) % 360
+      const start = normalize(options.startAngle)
+      let sweep = normalize(options.endAngle - options.startAngle)
+      if (sweep === 0 && options.endAngle !== options.startAngle) {
+         sweep = 360
+      }
+      let arcPoints = Layer.midpointEllipsePoints([options.radius, options.radius]).reduce<{ p: Point, a: number }[]>((prev, curr) => {
+         let angle = normalize(Math.atan2(curr[1], curr[0]) * 180 / Math.PI - start)
+         if (angle <= sweep) {
+            prev.push({ p: curr, a: angle })
          }
-    
-         - In the edge case of: [[[["Ω","-","a"],"∩",["Ω","-","b"]],"∪",["a","∩","b"]],"⊕","!(","a","⊕","b",")"]
-         - This program will favor the first symmertic difference, and choose end varaible as "!(", causing an error.
-         - This is prevented by the AND NOT edge case check.
-         
-         */
-         else if (OPS.hasOwnProperty(token as OPS_TOKEN)
-            && (indexValue === undefined || OPS[token as OPS_TOKEN] > indexValue)
-            && !(token === SYNTAX_TOKENS.SYMM_DIFF_OP && eq[i + 1] === `${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.OPEN_PER}`)) {
-            if (log) {
-               console.log(string + "Activated operation identification loop condition")
+         return prev
+      }, []).sort((a, b) => a.a - b.a).map(n => n.p)
+      if (options.sector) {
+         arcPoints.push([0, 0])
+      }
+      return new Layer({
+         controller: options.controller,
+         origin: options.origin,
+         verticesArray: Layer.planePointsToVoxels(arcPoints, options.center, options.planeAxis)
+      })
+   }
+   /**
+    * Creates a layer whose vertices trace a rectangle with quarter circle corners. The corners are rasterized with {@link Layer.midpointEllipsePoints}, and the straight sides are drawn between them by {@link Layer.generateEdges}.
+    * @param options {@link LayerRoundedRectangleOptions}
+    * @returns A new layer, edges are not yet generated.
+    * @throws {@link RangeError} If the corner radius is negative or larger than either half size.
+    */
+   static createRoundedRectangle(options: LayerRoundedRectangleOptions): Layer {
+      const halfSize = [Math.round(options.halfSize[0]), Math.round(options.halfSize[1])]
+      const radius = Math.round(options.cornerRadius)
+      if (radius < 0 || radius > halfSize[0] || radius > halfSize[1]) {
+         throw new RangeError("Invalid cornerRadius " + options.cornerRadius + ": must be between zero and the smallest half size " + JSON.stringify(options.halfSize) + ".")
+      }
+      const cornerPoints: Point[] = radius === 0 ? [[0, 0]] : Layer.midpointEllipsePoints([radius, radius])
+      let points: Record<string, Point> = {}
+      // Each quadrant of the corner circle is moved out to its own corner, points on an axis belong to both neighboring corners.
+      for (let point of cornerPoints) {
+         for (let signX of [-1, 1]) {
+            for (let signY of [-1, 1]) {
+               if (point[0] * signX >= 0 && point[1] * signY >= 0) {
+                  let placed: Point = [point[0] + signX * (halfSize[0] - radius), point[1] + signY * (halfSize[1] - radius)]
+                  points[placed.join(",")] = placed
+               }
             }
-            indexValue = OPS[token as OPS_TOKEN];
-            endIndex = i + 1;
-            startIndex = i - 1;
-            opIndex = i;
          }
       }
+      return new Layer({
+         controller: options.controller,
+         origin: options.origin,
+         verticesArray: Layer.planePointsToVoxels(LayerConvexExtrude.polarSort(Object.values(points), [0, 0]), options.center, options.planeAxis)
+      })
+   }
+   /**
+    * Rounds a calculated coordinate to the nearest whole number so that mirrored values always round to mirrored results.
+    *
+    * @remarks
+    * Math.round rounds halves up (2.5 to 3 but -2.5 to -2) and returns -0, which breaks symmetric designs.
+    * This rounds halves away from zero, and first snaps floating point noise such as 0.49999999999 from trigonometry.
+    *
+    * @param value Value to round
+    * @returns The rounded value, never -0.
+    */
+   static symmetricRound(value: number): number {
+      let snapped = Math.round(value * 1e9) / 1e9
+      return Math.sign(snapped) * Math.round(Math.abs(snapped)) + 0
+   }
+   /**
+    * Calculates the vertices of a shape where each vertice is evenly spaced by angle around the center.
+    * @param radii The radius of each vertice in order, the angle between each vertice is 360 / radii.length degrees.
+    * @param rotation Angle in degrees of the first vertice
+    * @returns XY points rounded via {@link Layer.symmetricRound}
+    */
+   static radialPoints(radii: number[], rotation: number): Point[] {
+      return radii.map((radius, i) => {
+         let angle = (rotation + i * 360 / radii.length) * Math.PI / 180
+         return [Layer.symmetricRound(radius * Math.cos(angle)), Layer.symmetricRound(radius * Math.sin(angle))] as Point
+      })
+   }
+   /**
+    * Creates a layer with the vertices of a regular polygon, where every side and angle are equal.
+    * @param options {@link LayerRegularPolygonOptions}
+    * @returns A new layer, edges are not yet generated.
+    * @throws {@link RangeError} If there are less than three sides.
+    */
+   static createRegularPolygon(options: LayerRegularPolygonOptions): Layer {
+      if (!Number.isInteger(options.sides) || options.sides < 3) {
+         throw new RangeError("Invalid sides " + options.sides + ": a regular polygon must have a whole number of sides of at least three.")
+      }
+      return new Layer({
+         controller: options.controller,
+         origin: options.origin,
+         verticesArray: Layer.planePointsToVoxels(Layer.radialPoints(new Array(options.sides).fill(options.radius), options.rotation), options.center, options.planeAxis)
+      })
+   }
+   /**
+    * Creates a layer with the vertices of a star polygon, alternating between the outer radius and inner radius.
+    * @param options {@link LayerStarOptions}
+    * @returns A new layer, edges are not yet generated.
+    * @throws {@link RangeError} If there are less than two points.
+    */
+   static createStar(options: LayerStarOptions): Layer {
+      if (!Number.isInteger(options.points) || options.points < 2) {
+         throw new RangeError("Invalid points " + options.points + ": a star must have a whole number of points of at least two.")
+      }
+      let radii: number[] = []
+      for (let i = 0; i < options.points; i++) {
+         radii.push(options.radius, options.innerRadius)
+      }
+      return new Layer({
+         controller: options.controller,
+         origin: options.origin,
+         verticesArray: Layer.planePointsToVoxels(Layer.radialPoints(radii, options.rotation), options.center, options.planeAxis)
+      })
+   }
+}
 
-      // The base case is if the equation is 3 tokens including arrays
-      // However, instances such as ["!(",["a","⊕","b"],")"] may cause this to activate, 
-      // so their can't be parenthsis
+/**
+ * Options for the {@link Ellipsoid} constructor.
+ */
+export interface EllipsoidOptions {
+   "controller": UUIDController,
+   "origin": Voxel,
+   /**
+    * The center of the ellipsoid. Does not account for origin.
+    */
+   "center": Voxel,
+   /**
+    * The radius along the X, Y and Z axes.
+    */
+   "radii": Voxel,
+   /**
+    * If the ellipsoid is a shell (hollow) or not (filled)
+    */
+   "shell": boolean
+}
 
-      if (eq.length === 3 && startPerArray.length === 0 && endPerArray.length === 0) {
-         if (log) {
-            console.log(string + "Activated EQ Length is 3");
+/**
+ * Stores the data structures required to create a 3D ellipsoid in 3D space.
+ *
+ * @remarks
+ * A voxel is part of the ellipsoid when it satisfies (x/rx)^2 + (y/ry)^2 + (z/rz)^2 <= 1 relative to the center.
+ *
+ * Related:
+ *
+ * {@link Sphere}
+ *
+ * {@link EllipsoidOptions}
+ */
+export class Ellipsoid extends BaseObject {
+   /**
+    * The center of the ellipsoid. Does not account for origin, use {@link Ellipsoid.getCenterVoxel}.
+    */
+   _center: Voxel
+   /**
+    * The radius along the X, Y and Z axes.
+    */
+   _radii: Voxel
+   /**
+    * Defines if the ellipsoid is a shell (hollow) or not (filled)
+    */
+   shell: boolean
+   constructor(options: EllipsoidOptions) {
+      super({
+         controller: options.controller,
+         origin: options.origin,
+      })
+      this.controller.setReferenceEntry(this.uuid, this)
+      Ellipsoid.validateRadii(options.radii)
+      this._center = [...options.center]
+      this._radii = [...options.radii]
+      this.shell = options.shell
+      this._fillVoxels = [[...this._center]]
+      this.calculateBoundingBox()
+   }
+   /**
+    * @param radii Radii to check
+    * @throws {@link RangeError} If any of the radii are negative or not a finite number.
+    */
+   static validateRadii(radii: number[]): void {
+      for (let i = 0; i < radii.length; i++) {
+         if (!Number.isFinite(radii[i]) || radii[i] < 0) {
+            throw new RangeError("Invalid radius " + radii[i] + " in [" + radii.join(", ") + "]: radii must be finite numbers, zero or greater.")
          }
-
-
-         // Optimizations
-         if (JSON.stringify(eq[0]) === JSON.stringify(eq[2])) {
-            if (eq[1] === SYNTAX_TOKENS.INTERSECTION_OP || eq[1] === SYNTAX_TOKENS.UNION_OP) {
-               if (log) {
-                  console.log(string + "Activated L3 Intersection or Union with self, returning self");
-               }
-               return depth === 1 ? [eq[0]] : eq[0]
-            }
-            if (eq[1] === SYNTAX_TOKENS.SYMM_DIFF_OP || eq[1] === SYNTAX_TOKENS.SUBTRACTION_OP) {
-               if (log) {
-                  console.log(string + "Activated L3 Symmertic Difference or subtraction with itself returning null");
-               }
-               return depth === 1 ? [SYNTAX_TOKENS.NULL_SET] : SYNTAX_TOKENS.NULL_SET
+      }
+   }
+   /**
+    * Evaluates the implicit equation of an ellipsoid at the given voxel.
+    *
+    * @remarks
+    * A radius of zero flattens the ellipsoid along that axis, so only voxels sharing the center coordinate on that axis are inside.
+    *
+    * @param voxel XYZ point to test
+    * @param center Center of the ellipsoid
+    * @param radii XYZ radii of the ellipsoid
+    * @returns Zero or negative if the voxel is inside, positive if outside.
+    */
+   static ellipsoidFunction(voxel: Voxel, center: Voxel, radii: Voxel): number {
+      let sum = 0;
+      for (let i = 0; i < 3; i++) {
+         let delta = voxel[i] - center[i]
+         if (radii[i] === 0) {
+            if (delta !== 0) {
+               return Infinity
             }
+            continue;
          }
-         // If the left or right side of the equation is a null set
-         if (eq[0] === SYNTAX_TOKENS.NULL_SET || eq[2] === SYNTAX_TOKENS.NULL_SET) {
-            // Intersection them returns a null set
-            if (eq[1] === SYNTAX_TOKENS.INTERSECTION_OP) {
-               if (log) {
-                  console.log(string + "L3: Activated intersection null");
-               }
-               return SYNTAX_TOKENS.NULL_SET
-            } else if (eq[1] === SYNTAX_TOKENS.UNION_OP || eq[1] === SYNTAX_TOKENS.SYMM_DIFF_OP) {
-               if (log) {
-                  console.log(string + "L3: Activated union null");
-               }
-               return eq[0] === SYNTAX_TOKENS.NULL_SET ? depth === 1 ? [eq[2]] : eq[2] : depth === 1 ? [eq[0]] : eq[0]
-            } else if (eq[1] === SYNTAX_TOKENS.SUBTRACTION_OP) {
-               if (log) {
-                  console.log(string + "L3: Activiated set subtraction with null set");
+         sum += (delta / radii[i]) ** 2
+      }
+      return sum - 1
+   }
+   /**
+    * Generates every voxel inside of the ellipsoid. If {@link Ellipsoid.shell} is true, only voxels with a face neighbor outside of the ellipsoid are kept.
+    *
+    * Stores with fillVoxels, re-calculautes bounding box.
+    *
+    * @returns reference to this object, allows for method chaining.
+    */
+   generateEllipsoid(): this {
+      this._fillVoxels = []
+      const center = this._center
+      const radii = this._radii
+      for (let x = Math.ceil(center[0] - radii[0]); x <= Math.floor(center[0] + radii[0]); x++) {
+         for (let y = Math.ceil(center[1] - radii[1]); y <= Math.floor(center[1] + radii[1]); y++) {
+            for (let z = Math.ceil(center[2] - radii[2]); z <= Math.floor(center[2] + radii[2]); z++) {
+               let voxel: Voxel = [x, y, z]
+               if (Ellipsoid.ellipsoidFunction(voxel, center, radii) > 0) {
+                  continue;
                }
-               /* In SQL, null minus null yeilds null so I apply this logic */
-               // null - set
-               if (eq[0] === SYNTAX_TOKENS.NULL_SET) {
-                  return depth === 1 ? [SYNTAX_TOKENS.NULL_SET] : SYNTAX_TOKENS.NULL_SET;
-               } else {
-                  // set - null
-                  return depth === 1 ? [eq[0]] : eq[0];
+               if (this.shell && BaseObject.getFaceNeighbors(voxel).every(n => Ellipsoid.ellipsoidFunction(n, center, radii) <= 0)) {
+                  continue;
                }
+               this._fillVoxels.push(voxel)
             }
          }
-         // a set minus the universal leaves nothing left over.
-         if (eq[1] === SYNTAX_TOKENS.SUBTRACTION_OP && eq[2] === SYNTAX_TOKENS.UNIVERSAL_SET) {
-            if (log) {
-               console.log(string + "L3: Activated minus universal set equals null")
-            }
-            return depth === 1 ? [SYNTAX_TOKENS.NULL_SET] : SYNTAX_TOKENS.NULL_SET;
-         }
-         // union to a universal set
-         if ((eq[1] === SYNTAX_TOKENS.UNION_OP) && (eq[0] === SYNTAX_TOKENS.UNIVERSAL_SET || eq[2] === SYNTAX_TOKENS.UNIVERSAL_SET)) {
-            if (log) {
-               console.log(string + "L3: Activated union universal set equals universal")
-            }
-            return depth === 1 ? [SYNTAX_TOKENS.UNIVERSAL_SET] : SYNTAX_TOKENS.UNIVERSAL_SET
-         }
-
-         // intersection to a universal set
-
-         if ((eq[1] === SYNTAX_TOKENS.INTERSECTION_OP) && (eq[0] === SYNTAX_TOKENS.UNIVERSAL_SET || eq[2] === SYNTAX_TOKENS.UNIVERSAL_SET)) {
-            if (log) {
-               console.log(string + "L3: Activated intersection universal set")
-            }
-            return eq[0] === SYNTAX_TOKENS.UNIVERSAL_SET ? depth === 1 ? [eq[2]] : eq[2] : depth === 1 ? [eq[0]] : eq[0]
-         }
-         if (log) {
-            console.log(string + "L3: Returning eq")
-         }
-         return [...eq];
-      }
-      if (symmPerArray.length > 0) {
-         if (log) {
-            console.log(string + "Amount of Symmertries: " + symmPerArray.length)
-         }
-      }
-      /// This should be detected if the equation is validated, but parser errors can happen.
-      if (startPerArray.length !== endPerArray.length) {
-         console.log(eq, startPerArray, endPerArray)
-         throw new Error("Invalid Amount of Grouping");
-      }
-
-      // From here, figure out the most embedded group of parenthesis.
-      let groupRanking: GroupRanking = {}
-      let groupCounter = 0;
-      // If their is closing or opening grouping.
-      let allPerArray = [...startPerArray, ...endPerArray]
-      while (allPerArray.length > 0) {
-         let perStartIndex: number = -1;
-         let perEndIndex: number = -1;
-         allPerArray = [...startPerArray, ...endPerArray]
-         // Create a list of all the indicies of the grouping
-         // For all opening paratntehis
-         startLoop: for (const openPerIter of startPerArray) {
-            // Set the new startIndex for the next equation subsection
-            perStartIndex = openPerIter;
-            // for each end grouping
-            endLoop: for (const endPerIter of endPerArray) {
-               // If the end grouping is before the opening e.x. (a-b)+(c+d) compaing closing of left to opening of right term.
-               if (endPerIter <= openPerIter) {
-                  // Continue because this is an invalid grouping.
-                  continue;
-               }
-               // Loop through all other grouping
-               for (const allPerIter of allPerArray) {
-                  // if any other parenteshsis fall between this start and end,
-                  // then this is not the most embedded group
-                  if (allPerIter > openPerIter && allPerIter < endPerIter) {
-                     continue endLoop;
-                  }
-               }
-               // If we manage to get through without causing a continue,
-               // then set the endIndex to this end paretthesis and break the process.
-               groupCounter++;
-               perEndIndex = endPerIter;
-               groupRanking[`${groupCounter}`] = {
-                  "i": [perStartIndex, perEndIndex],
-                  "n": eq[perStartIndex] === `${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.OPEN_PER}`
-               }
-               startPerArray = startPerArray.filter((v, i) => i !== startPerArray.indexOf(perStartIndex))
-               endPerArray = endPerArray.filter((v, i) => i !== endPerArray.indexOf(perEndIndex))
-               break startLoop;
-            }
-         }
-      }
-
-      let targetOpeningPer: number = -1;
-      let targetClosingPer: number = -1;
-      let negatedOpeningPer: number = -1;
-      let negatedClosingPer: number = -1;
-      let groupRankingKeys: string[] = Object.keys(groupRanking);
-      if (groupRankingKeys.length > 0) {
-         targetOpeningPer = groupRanking["1"]["i"][0];
-         targetClosingPer = groupRanking["1"]["i"][1];
-         let closetRanking: number = -1
-         for (let key of groupRankingKeys) {
-            // Find the negating grouping that is the closet depth to our current opening and closing.
-            if (groupRanking[key as keyof typeof groupRanking]["n"] &&
-               // Surronds the current non-negating grouping
-               groupRanking[key]["i"][0] <= targetOpeningPer &&
-               groupRanking[key]["i"][1] >= targetClosingPer &&
-               // This ranking is closer to 0 as possible
-               (Number(key) < closetRanking || closetRanking === -1)) {
-               closetRanking = Number(key);
-               negatedOpeningPer = groupRanking[key]["i"][0];
-               negatedClosingPer = groupRanking[key]["i"][1];
-            }
-         }
-      }
-      if (log) {
-         console.log(string + "Grouping Ranking" + JSON.stringify(groupRanking))
-         console.log(string + "Target Opening Grouping Index " + targetOpeningPer)
-         console.log(string + "Target Closing Grouping Index " + targetClosingPer)
-         console.log(string + "Target Negated Opening Grouping Index " + negatedOpeningPer)
-         console.log(string + "Target Negated Opening Grouping Index " + negatedClosingPer)
-      }
-      // If their is grouping that is being negated, their may be symmertic differences within that parenthesis that are being negated.
-
-      // If we have a negation somewhere in the array.
-      if (negatedClosingPer !== -1 && negatedOpeningPer != -1) {
-         if (log) {
-            console.log(string + "Activiated Symmertric Difference negation check")
-         }
-         // Check if a symmertic difference is between it at any level.
-         for (let i = 0; i < symmPerArray.length; i++) {
-            // If this symmsertic difference is between the negation grouping
-            if (symmPerArray[i] > negatedOpeningPer && symmPerArray[i] < negatedClosingPer) {
-               if (log) {
-                  console.log(string + `Symmertic difference at index ${symmPerArray[i]} is being negated.`)
-               }
-               eq[negatedOpeningPer] = `${SYNTAX_TOKENS.OPEN_PER}`
-               return SetOperationsParser.generateAST([...eq.slice(0, negatedOpeningPer), [SYNTAX_TOKENS.UNIVERSAL_SET, SYNTAX_TOKENS.SUBTRACTION_OP, SetOperationsParser.generateAST([...eq.slice(negatedOpeningPer + 1, negatedClosingPer)], log, depth)], ...eq.slice(negatedClosingPer + 1, eq.length)], log, depth)
-            }
-         }
-      }
-      // Otherwise, if the start index for the most embedded grouping is also being negated "!(a+b)"
-      else if (negatedClosingPer !== -1 && negatedOpeningPer != -1) {
-         if (log) {
-            console.log(string + "Activated Negated Grouping is startIndex")
-         }
-         // Previously, this operation on token did not mutate. Now we mutate the equation and remove the negative.
-         eq[targetOpeningPer] = SYNTAX_TOKENS.OPEN_PER
-         // Then, distrubute that grouping and all of the sub-groupings.
-         eq = [...eq.slice(0, targetOpeningPer), ...this._distrubuteNegate(eq.slice(targetOpeningPer + 1, targetClosingPer), log, depth), ...eq.slice(targetClosingPer + 1, eq.length)]
-         if (log) {
-            console.log(string + "Combined and negated equation: " + JSON.stringify(eq))
-         }
-         // Otherwise, if this grouping is not being negated, then group all of the elements within that group into a new array
-         // This gives presidence to that section of the AST.
-      } else if (targetOpeningPer !== -1 && targetClosingPer !== -1) {
-         if (log) {
-            console.log(string + "Activated startPerArray Length Condition because their are " + startPerArray.length + " opening grouping syntax, target grouping syntax is at EQ startIndex: " + targetOpeningPer)
-         }
-         eq = [...eq.slice(0, targetOpeningPer), SetOperationsParser.generateAST(eq.slice(targetOpeningPer + 1, targetClosingPer), log, depth), ...eq.slice(targetClosingPer + 1, eq.length)];
-      }
-      // Otherwise, no grouping, just a pure A+B+C for example.
-      else {
-         if (log) {
-            console.log(string + "Operation Index: " + opIndex)
-         }
-         // Turns ["A","+","B","+","C"] into [["A","+","B"],"+","C"]
-         eq = [...eq.slice(0, startIndex), SetOperationsParser.generateAST([eq[startIndex], eq[opIndex], eq[endIndex]], log, depth), ...eq.slice(endIndex + 1, eq.length)];
-      }
-      // After all of this, put it back through the the parser again.
-      // Need to use new varaible here because EQ is always an array, and since the collapse of the call may return a
-      // string, we need to allow it to accept both because typescript.
-      let newEq: string | AST = SetOperationsParser.generateAST(eq, log, depth)
-      if (log) {
-         console.log(string + "Equation is finalized, pushing to the tree")
       }
-      console.log(string + JSON.stringify(newEq))
-      // Then, pass this section of the AST back into the final AST. Collapse and return final result if at bottom of call stack.
-      return newEq
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * @returns The {@link Ellipsoid._center} with {@link Ellipsoid._origin} and {@link Ellipsoid._transforms} applied via {@link BaseObject.placePoints}.
+    */
+   getCenterVoxel(): Voxel {
+      return this.placePoints([this._center])[0];
+   }
+   /**
+    * Changes the center, sets it as the {@link Ellipsoid._fillVoxels}, calculautes required bounding box data.
+    * @param center New center
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeCenter(center: Voxel): this {
+      this._center = [...center]
+      this._fillVoxels = [[...this._center]]
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Changes the radii, sets the center as the {@link Ellipsoid._fillVoxels}, calculautes required bounding box data.
+    * @param radii New XYZ radii
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeRadii(radii: Voxel): this {
+      Ellipsoid.validateRadii(radii)
+      this._radii = [...radii]
+      this._fillVoxels = [[...this._center]]
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Scales the center around the pivot and each radius by its factor, then generates the ellipsoid again.
+    * @override
+    */
+   scaleShape(factors: Voxel, pivot: Voxel): boolean {
+      this.changeCenter(BaseObject.scalePoints([this._center], factors, pivot.map((n, i) => n - this._origin[i]))[0])
+      this.changeRadii(this._radii.map((n, i) => n * factors[i]) as Voxel).generateEllipsoid()
+      return true
    }
 }
+
 /**
- * @remarks
- * Acts as a interface to {@link SetOperationsParser} with pass through methods and the storage of equation data.
+ * Options for the {@link Sphere} constructor.
  */
-export class SetOperationsEquation {
+export interface SphereOptions {
+   "controller": UUIDController,
+   "origin": Voxel,
    /**
-    * @remarks
-    * Stores the current equation pre-AST generation
+    * The center of the sphere. Does not account for origin.
     */
-   equationString: string;
+   "center": Voxel,
+   "radius": number,
    /**
-    * If the {@link SetOperationsParser.generateAST} should produce a log to the console.
+    * If the sphere is a shell (hollow) or not (filled)
     */
-   log: boolean;
+   "shell": boolean
+}
+
+/**
+ * An {@link Ellipsoid} with the same radius along all three axes.
+ *
+ * @example
+ * let sphere = new Sphere({ controller, origin: [0, 0, 0], center: [0, 0, 0], radius: 5, shell: false }).generateEllipsoid()
+ */
+export class Sphere extends Ellipsoid {
+   constructor(options: SphereOptions) {
+      super({
+         controller: options.controller,
+         origin: options.origin,
+         center: options.center,
+         radii: [options.radius, options.radius, options.radius],
+         shell: options.shell
+      })
+   }
+   getRadius(): number {
+      return this._radii[0];
+   }
    /**
-    * The output of passing {@link SetOperationsEquation.equationString} through {@link SetOperationsParser.validateEquation}
+    * Pass through method to {@link Ellipsoid.changeRadii} with the radius on all three axes.
+    * @param radius New radius
+    * @returns reference to this object, allows for method chaining.
     */
-   validEquationArray: string[];
+   changeRadius(radius: number): this {
+      return this.changeRadii([radius, radius, radius])
+   }
+}
+
+/**
+ * Options for the {@link Cone} constructor.
+ */
+export interface ConeOptions {
+   "controller": UUIDController,
+   "origin": Voxel,
    /**
-    * The output of passing {@link SetOperationsEquation.validEquationArray} through {@link SetOperationsParser.generateAST}.
-    * This AST is stored as private to create a mutation-free storage. 
+    * The [start, end] points of the center axis.
     */
-   private equationAST: AST = [];
+   "endPoints": [Voxel, Voxel],
    /**
-    * @remarks
-    * Constructs a new {@link SetOperationsEquation}. 
-    * @param str The string equation to create a new AST from
-    * @param log Log production flag for {@link SetOperationsParser.generateAST}
+    * The radius at the [start, end] points. A radius of zero at one end creates a pointed cone, two non-zero radii creates a frustum.
     */
-   constructor(str: string, log: boolean) {
-      this.equationString = str;
-      this.log = log;
-      this.validEquationArray = [];
-   }
+   "radii": [number, number],
    /**
-    * @remarks
-    * Accepts a new string as the {@link SetOperationsEquation.equationString}, resets all attributes accept {@link SetOperationsEquation.log} 
-    * @param str New equation strng
+    * If the cone is a shell (hollow) or not (filled)
     */
-   changeEquation(str: string) {
-      this.equationString = str;
-      this.validEquationArray = [];
-      this.equationAST = [];
-   }
+   "shell": boolean
+}
+
+/**
+ * Stores the data structures required to create a cone or frustum between two points in 3D space. The axis may point in any direction.
+ *
+ * @remarks
+ * The radius is linearly interpolated from the start radius to the end radius along the axis.
+ *
+ * Related:
+ *
+ * {@link Cylinder}
+ *
+ * {@link ConeOptions}
+ */
+export class Cone extends BaseObject {
    /**
-    * @remarks
-    * To be called before {@link SetOperationsEquation.generateAST}.
-    * Pass through functon to {@link SetOperationsParser.validateEquation} with {@link SetOperationsEquation.equationString} as the arguement.
+    * Stores the [start, end] points of the center axis. Does not account for origin.
     */
-   validateEquation() {
-      this.validEquationArray = SetOperationsParser.validateEquation(this.equationString);
+   _endPoints: Voxel[]
+   /**
+    * The radius at the [start, end] points.
+    */
+   _radii: [number, number]
+   /**
+    * Defines if the cone is a shell (hollow) or not (filled)
+    */
+   shell: boolean
+   constructor(options: ConeOptions) {
+      super({
+         controller: options.controller,
+         origin: options.origin,
+      })
+      this.controller.setReferenceEntry(this.uuid, this)
+      Ellipsoid.validateRadii(options.radii)
+      this._endPoints = BaseObject.deepCopy(options.endPoints)
+      this._radii = [options.radii[0], options.radii[1]]
+      this.shell = options.shell
+      this._fillVoxels = [...this._endPoints]
+      this.calculateBoundingBox()
    }
    /**
+    * Evaluates the distance from a voxel to the surface of a cone.
+    *
     * @remarks
-    * To be called after {@link SetOperationsEquation.validateEquation}.
-    * Pass through functon to {@link SetOperationsParser.generateAST} with arguments {@link SetOperationsEquation.validEquationArray}, 
-    * {@link SetOperationsEquation.log}, and inital depth of zero.
+    * The voxel is projected onto the axis to find how far along it is (t from 0 to 1), the perpendicular distance to the axis is then compared to the interpolated radius at t.
+    *
+    * @param voxel XYZ point to test
+    * @param endPoints [start, end] points of the axis, must not be the same point.
+    * @param radii The radius at the [start, end] points
+    * @returns Zero or negative if the voxel is inside, positive if outside.
     */
-   generateAST() {
-      this.equationAST = SetOperationsParser.generateAST([...this.validEquationArray], this.log, 0) as AST;
+   static coneFunction(voxel: Voxel, endPoints: Voxel[], radii: [number, number]): number {
+      let axis = [0, 1, 2].map(i => endPoints[1][i] - endPoints[0][i])
+      let relative = [0, 1, 2].map(i => voxel[i] - endPoints[0][i])
+      let lengthSquared = axis[0] ** 2 + axis[1] ** 2 + axis[2] ** 2
+      let length = Math.sqrt(lengthSquared)
+      let t = (relative[0] * axis[0] + relative[1] * axis[1] + relative[2] * axis[2]) / lengthSquared
+      let perpendicular = Math.sqrt(Math.max(0, relative[0] ** 2 + relative[1] ** 2 + relative[2] ** 2 - (t * length) ** 2))
+      let radius = radii[0] + (radii[1] - radii[0]) * Math.min(1, Math.max(0, t))
+      return Math.max(perpendicular - radius, -t * length, (t - 1) * length)
    }
    /**
-    * @remarks
-    * Returns stored AST
-    * @returns Uses {@link JSON.parse} of {@link JSON.stringify} to return a deep copy of the AST.
+    * Generates every voxel inside of the cone. If {@link Cone.shell} is true, only voxels with a face neighbor outside of the cone are kept, which includes both end caps.
+    *
+    * Stores with fillVoxels, re-calculautes bounding box.
+    *
+    * @returns reference to this object, allows for method chaining.
+    * @throws {@link RangeError} If both end points are the same voxel.
     */
-   getAST(): AST {
-      return JSON.parse(JSON.stringify(this.equationAST));
+   generateCone(): this {
+      const endPoints = this._endPoints
+      const radii = this._radii
+      if (BaseObject.compare2d(endPoints[0], endPoints[1])) {
+         throw new RangeError("Invalid Cone end points " + JSON.stringify(endPoints) + ": the axis must have a length greater than zero.")
+      }
+      this._fillVoxels = []
+      let maxRadius = Math.max(...radii)
+      let low = [0, 1, 2].map(i => Math.ceil(Math.min(endPoints[0][i], endPoints[1][i]) - maxRadius))
+      let high = [0, 1, 2].map(i => Math.floor(Math.max(endPoints[0][i], endPoints[1][i]) + maxRadius))
+      for (let x = low[0]; x <= high[0]; x++) {
+         for (let y = low[1]; y <= high[1]; y++) {
+            for (let z = low[2]; z <= high[2]; z++) {
+               let voxel: Voxel = [x, y, z]
+               if (Cone.coneFunction(voxel, endPoints, radii) > 0) {
+                  continue;
+               }
+               if (this.shell && BaseObject.getFaceNeighbors(voxel).every(n => Cone.coneFunction(n, endPoints, radii) <= 0)) {
+                  continue;
+               }
+               this._fillVoxels.push(voxel)
+            }
+         }
+      }
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * @returns The {@link Cone._endPoints} of the axis with each {@link Cone._origin} and {@link Cone._transforms} applied via {@link BaseObject.placePoints}.
+    */
+   getVerticeVoxels(): Voxel[] {
+      return this.placePoints(this._endPoints);
+   }
+   /**
+    * Changes the current {@link Cone._endPoints}, set them as the {@link Cone._fillVoxels}, calculautes required bounding box data.
+    * @param endPoints New End Points [start, end]
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeEndPoints(endPoints: [Voxel, Voxel]): this {
+      this._endPoints = BaseObject.deepCopy(endPoints)
+      this._fillVoxels = [...this._endPoints]
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Changes the current {@link Cone._radii}, set the end points as the {@link Cone._fillVoxels}, calculautes required bounding box data.
+    * @param radii New radii [start, end]
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeRadii(radii: [number, number]): this {
+      Ellipsoid.validateRadii(radii)
+      this._radii = [radii[0], radii[1]]
+      this._fillVoxels = [...this._endPoints]
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Scales the {@link Cone._endPoints} around the pivot and the {@link Cone._radii} by the factor across the axis, then generates the cone again.
+    *
+    * The cross-section must stay round, so either every factor is the same, or the axis lies along one world axis and the two factors across it are the same.
+    * @override
+    */
+   scaleShape(factors: Voxel, pivot: Voxel): boolean {
+      const axis = [0, 1, 2].map(i => this._endPoints[1][i] - this._endPoints[0][i])
+      const along = axis.filter(n => n !== 0).length === 1 ? axis.findIndex(n => n !== 0) : -1
+      const across = [0, 1, 2].filter(i => i !== along).map(i => factors[i])
+      if (across.some(n => n !== across[0])) {
+         return false
+      }
+      this.changeEndPoints(BaseObject.scalePoints(this._endPoints, factors, pivot.map((n, i) => n - this._origin[i])) as [Voxel, Voxel])
+      this.changeRadii(this._radii.map(n => n * across[0]) as [number, number]).generateCone()
+      return true
+   }
+}
+
+/**
+ * Options for the {@link Cylinder} constructor.
+ */
+export interface CylinderOptions {
+   "controller": UUIDController,
+   "origin": Voxel,
+   /**
+    * The [start, end] points of the center axis.
+    */
+   "endPoints": [Voxel, Voxel],
+   "radius": number,
+   /**
+    * If the cylinder is a shell (hollow) or not (filled)
+    */
+   "shell": boolean
+}
+
+/**
+ * A {@link Cone} with the same radius at both end points.
+ */
+export class Cylinder extends Cone {
+   constructor(options: CylinderOptions) {
+      super({
+         controller: options.controller,
+         origin: options.origin,
+         endPoints: options.endPoints,
+         radii: [options.radius, options.radius],
+         shell: options.shell
+      })
+   }
+   getRadius(): number {
+      return this._radii[0];
+   }
+   /**
+    * Pass through method to {@link Cone.changeRadii} with the radius at both end points.
+    * @param radius New radius
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeRadius(radius: number): this {
+      return this.changeRadii([radius, radius])
+   }
+}
+
+/**
+ * Specifies which voxels of the box are generated by {@link Cuboid.generateCuboid}
+ */
+export enum CuboidFillModes {
+   /**
+    * Every voxel within the box.
+    */
+   FILL_MODE_SOLID = "FILL_MODE_SOLID",
+   /**
+    * Only the voxels on the six faces of the box.
+    */
+   FILL_MODE_SHELL = "FILL_MODE_SHELL",
+   /**
+    * Only the voxels on the twelve edges of the box.
+    */
+   FILL_MODE_WIREFRAME = "FILL_MODE_WIREFRAME"
+}
+
+/**
+ * Options for the {@link Cuboid} constructor.
+ */
+export interface CuboidOptions {
+   "controller": UUIDController,
+   "origin": Voxel,
+   /**
+    * Either two opposite corners of the box, or the corner directory of an existing {@link BoundingBox}.
+    */
+   "corners": [Voxel, Voxel] | CompleteBoundingBoxPointData,
+   /**
+    * Specifies how to fill the box via {@link CuboidFillModes}
+    */
+   "fillMode": CuboidFillModes
+}
+
+/**
+ * Stores the data structures required to create an axis aligned box in 3D space.
+ *
+ * @remarks
+ * The corners are stored as a {@link BoundingBox}, so the box can be made directly from the {@link BaseObject.boundingBoxMeta} of another shape.
+ */
+export class Cuboid extends BaseObject {
+   /**
+    * The box to fill. Does not account for origin, use {@link Cuboid.getVerticeVoxels} for the corners with origin.
+    */
+   cuboidBoundingBox: BoundingBox
+   /**
+    * Specifies how to fill the box via {@link CuboidFillModes}
+    */
+   fillMode: CuboidFillModes
+   constructor(options: CuboidOptions) {
+      super({
+         controller: options.controller,
+         origin: options.origin,
+      })
+      this.controller.setReferenceEntry(this.uuid, this)
+      this.fillMode = options.fillMode
+      this.cuboidBoundingBox = Cuboid.createCuboidBoundingBox(options.corners)
+      this._fillVoxels = BoundingBox.compileBoundingDirectory(this.cuboidBoundingBox.boundingBoxPointData)
+      this.calculateBoundingBox()
+   }
+   /**
+    * @param corners Either two opposite corners of the box, or the corner directory of an existing {@link BoundingBox}.
+    * @returns A new {@link BoundingBox} that surronds the corners.
+    */
+   static createCuboidBoundingBox(corners: [Voxel, Voxel] | CompleteBoundingBoxPointData): BoundingBox {
+      if (Array.isArray(corners)) {
+         return new BoundingBox({
+            boundingInputPayload: BaseObject.deepCopy(corners),
+            inputType: BoundingBoxPayloadModes.TYPE_BOUNDING_POINTS
+         })
+      }
+      return new BoundingBox({
+         boundingInputPayload: corners,
+         inputType: BoundingBoxPayloadModes.TYPE_BOUNDING_DIRECTORY
+      })
+   }
+   /**
+    * Generates the voxels of the box as per {@link Cuboid.fillMode}.
+    *
+    * A voxel is on a face when one of its coordinates is at the low or high of that axis, and on an edge when two or more of its coordinates are.
+    *
+    * Stores with fillVoxels, re-calculautes bounding box.
+    *
+    * @returns reference to this object, allows for method chaining.
+    */
+   generateCuboid(): this {
+      this._fillVoxels = []
+      const { xLow, xHigh, yLow, yHigh, zLow, zHigh } = this.cuboidBoundingBox
+      for (let x = xLow; x <= xHigh; x++) {
+         for (let y = yLow; y <= yHigh; y++) {
+            for (let z = zLow; z <= zHigh; z++) {
+               let extremeCount = Number(x === xLow || x === xHigh) + Number(y === yLow || y === yHigh) + Number(z === zLow || z === zHigh)
+               if (this.fillMode === CuboidFillModes.FILL_MODE_SHELL && extremeCount < 1) {
+                  continue;
+               }
+               if (this.fillMode === CuboidFillModes.FILL_MODE_WIREFRAME && extremeCount < 2) {
+                  continue;
+               }
+               this._fillVoxels.push([x, y, z])
+            }
+         }
+      }
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * @returns All eight corners of the box from {@link BoundingBox.compileBoundingDirectory} with the {@link Cuboid._origin} and {@link Cuboid._transforms} applied via {@link BaseObject.placePoints}.
+    */
+   getVerticeVoxels(): Voxel[] {
+      return this.placePoints(BoundingBox.compileBoundingDirectory(this.cuboidBoundingBox.boundingBoxPointData));
+   }
+   /**
+    * Changes the corners of the box, sets the eight corners as the {@link Cuboid._fillVoxels}, calculautes required bounding box data.
+    * @param corners Either two opposite corners of the box, or the corner directory of an existing {@link BoundingBox}.
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeCorners(corners: [Voxel, Voxel] | CompleteBoundingBoxPointData): this {
+      this.cuboidBoundingBox = Cuboid.createCuboidBoundingBox(corners)
+      this._fillVoxels = BoundingBox.compileBoundingDirectory(this.cuboidBoundingBox.boundingBoxPointData)
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Scales the box as unit cubes around the center of the pivot voxel, the same as {@link BaseObject.scaleVoxels}, then generates the box again.
+    *
+    * The new box keeps every voxel whose center is within the scaled box, or on its low side, and is at least one voxel wide.
+    * @override
+    */
+   scaleShape(factors: Voxel, pivot: Voxel): boolean {
+      const { xLow, xHigh, yLow, yHigh, zLow, zHigh } = this.cuboidBoundingBox
+      const low: Voxel = [xLow, yLow, zLow]
+      const high: Voxel = [xHigh, yHigh, zHigh]
+      let corners = [0, 1, 2].map(i => {
+         let center = pivot[i] - this._origin[i]
+         let newLow = Math.ceil(center + (low[i] - 0.5 - center) * factors[i] - 1e-9)
+         let newHigh = Math.ceil(center + (high[i] + 0.5 - center) * factors[i] - 1e-9) - 1
+         return [newLow, Math.max(newLow, newHigh)]
+      })
+      this.changeCorners([corners.map(n => n[0]) as Voxel, corners.map(n => n[1]) as Voxel]).generateCuboid()
+      return true
+   }
+}
+
+/**
+ * Options for the {@link Torus} constructor.
+ */
+export interface TorusOptions {
+   "controller": UUIDController,
+   "origin": Voxel,
+   /**
+    * The center of the ring. Does not account for origin.
+    */
+   "center": Voxel,
+   /**
+    * A XYZ direction vector perpendicular to the plane of the ring, does not need to be normalized.
+    */
+   "normal": Voxel,
+   /**
+    * The distance from the center to the middle of the tube.
+    */
+   "majorRadius": number,
+   /**
+    * The radius of the tube.
+    */
+   "minorRadius": number,
+   /**
+    * If the torus is a shell (hollow) or not (filled)
+    */
+   "shell": boolean
+}
+
+/**
+ * Stores the data structures required to create a torus (ring) in 3D space. The ring may face any direction.
+ */
+export class Torus extends BaseObject {
+   /**
+    * The center of the ring. Does not account for origin, use {@link Torus.getCenterVoxel}.
+    */
+   _center: Voxel
+   /**
+    * A XYZ direction vector perpendicular to the plane of the ring.
+    */
+   _normal: Voxel
+   /**
+    * The distance from the center to the middle of the tube.
+    */
+   majorRadius: number
+   /**
+    * The radius of the tube.
+    */
+   minorRadius: number
+   /**
+    * Defines if the torus is a shell (hollow) or not (filled)
+    */
+   shell: boolean
+   constructor(options: TorusOptions) {
+      super({
+         controller: options.controller,
+         origin: options.origin,
+      })
+      this.controller.setReferenceEntry(this.uuid, this)
+      Ellipsoid.validateRadii([options.majorRadius, options.minorRadius])
+      Torus.validateNormal(options.normal)
+      this._center = [...options.center]
+      this._normal = [...options.normal]
+      this.majorRadius = options.majorRadius
+      this.minorRadius = options.minorRadius
+      this.shell = options.shell
+      this._fillVoxels = [[...this._center]]
+      this.calculateBoundingBox()
+   }
+   /**
+    * @param normal Normal to check
+    * @throws {@link RangeError} If the normal is [0, 0, 0].
+    */
+   static validateNormal(normal: Voxel): void {
+      if (normal[0] === 0 && normal[1] === 0 && normal[2] === 0) {
+         throw new RangeError("Invalid normal " + JSON.stringify(normal) + ": the normal must have a length greater than zero.")
+      }
+   }
+   /**
+    * Evaluates the distance from a voxel to the surface of a torus.
+    *
+    * @param voxel XYZ point to test
+    * @param center Center of the ring
+    * @param normal Direction perpendicular to the plane of the ring, must not be [0, 0, 0]
+    * @param majorRadius Distance from the center to the middle of the tube
+    * @param minorRadius Radius of the tube
+    * @returns Zero or negative if the voxel is inside, positive if outside.
+    */
+   static torusFunction(voxel: Voxel, center: Voxel, normal: Voxel, majorRadius: number, minorRadius: number): number {
+      let normalLength = Math.sqrt(normal[0] ** 2 + normal[1] ** 2 + normal[2] ** 2)
+      let relative = [0, 1, 2].map(i => voxel[i] - center[i])
+      let height = (relative[0] * normal[0] + relative[1] * normal[1] + relative[2] * normal[2]) / normalLength
+      let radial = Math.sqrt(Math.max(0, relative[0] ** 2 + relative[1] ** 2 + relative[2] ** 2 - height ** 2))
+      return Math.sqrt((radial - majorRadius) ** 2 + height ** 2) - minorRadius
+   }
+   /**
+    * Generates every voxel inside of the torus. If {@link Torus.shell} is true, only voxels with a face neighbor outside of the torus are kept.
+    *
+    * Stores with fillVoxels, re-calculautes bounding box.
+    *
+    * @returns reference to this object, allows for method chaining.
+    */
+   generateTorus(): this {
+      this._fillVoxels = []
+      const { majorRadius, minorRadius } = this
+      const center = this._center
+      const normal = this._normal
+      let reach = majorRadius + minorRadius
+      for (let x = Math.ceil(center[0] - reach); x <= Math.floor(center[0] + reach); x++) {
+         for (let y = Math.ceil(center[1] - reach); y <= Math.floor(center[1] + reach); y++) {
+            for (let z = Math.ceil(center[2] - reach); z <= Math.floor(center[2] + reach); z++) {
+               let voxel: Voxel = [x, y, z]
+               if (Torus.torusFunction(voxel, center, normal, majorRadius, minorRadius) > 0) {
+                  continue;
+               }
+               if (this.shell && BaseObject.getFaceNeighbors(voxel).every(n => Torus.torusFunction(n, center, normal, majorRadius, minorRadius) <= 0)) {
+                  continue;
+               }
+               this._fillVoxels.push(voxel)
+            }
+         }
+      }
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * @returns The {@link Torus._center} with {@link Torus._origin} and {@link Torus._transforms} applied via {@link BaseObject.placePoints}.
+    */
+   getCenterVoxel(): Voxel {
+      return this.placePoints([this._center])[0];
+   }
+   /**
+    * Changes the center, sets it as the {@link Torus._fillVoxels}, calculautes required bounding box data.
+    * @param center New center
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeCenter(center: Voxel): this {
+      this._center = [...center]
+      this._fillVoxels = [[...this._center]]
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Changes the normal, sets the center as the {@link Torus._fillVoxels}, calculautes required bounding box data.
+    * @param normal New direction perpendicular to the plane of the ring
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeNormal(normal: Voxel): this {
+      Torus.validateNormal(normal)
+      this._normal = [...normal]
+      this._fillVoxels = [[...this._center]]
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Changes both radii, sets the center as the {@link Torus._fillVoxels}, calculautes required bounding box data.
+    * @param majorRadius New distance from the center to the middle of the tube
+    * @param minorRadius New radius of the tube
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeRadii(majorRadius: number, minorRadius: number): this {
+      Ellipsoid.validateRadii([majorRadius, minorRadius])
+      this.majorRadius = majorRadius
+      this.minorRadius = minorRadius
+      this._fillVoxels = [[...this._center]]
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Scales the {@link Torus._center} around the pivot and both radii by the factor, then generates the torus again.
+    *
+    * Only the same factor on every axis is supported, since the ring and tube must stay round.
+    * @override
+    */
+   scaleShape(factors: Voxel, pivot: Voxel): boolean {
+      if (factors[0] !== factors[1] || factors[1] !== factors[2]) {
+         return false
+      }
+      this.changeCenter(BaseObject.scalePoints([this._center], factors, pivot.map((n, i) => n - this._origin[i]))[0])
+      this.changeRadii(this.majorRadius * factors[0], this.minorRadius * factors[0]).generateTorus()
+      return true
+   }
+}
+
+/**
+ * A user defined function used by {@link ImplicitShape}. Returns zero or negative when the XYZ point is inside the shape, positive when outside.
+ *
+ * @example
+ * // Sphere of radius 5
+ * (x, y, z) => x ** 2 + y ** 2 + z ** 2 - 25
+ */
+export type ImplicitFunction = (x: number, y: number, z: number) => number
+
+/**
+ * Options for the {@link ImplicitShape} constructor.
+ */
+export interface ImplicitShapeOptions {
+   "controller": UUIDController,
+   "origin": Voxel,
+   /**
+    * The function to voxelize, see {@link ImplicitFunction}
+    */
+   "implicitFunction": ImplicitFunction,
+   /**
+    * Only voxels inside this box are evaluated. Does not account for origin.
+    */
+   "searchRegion": BoundingBox,
+   /**
+    * If only the boundary layer of the shape should be kept (hollow) or not (filled)
+    */
+   "shell": boolean
+}
+
+/**
+ * Voxelizes any shape that can be described by an {@link ImplicitFunction}, such as gyroids, metaballs, or signed distance functions blended together.
+ *
+ * @remarks
+ * The function is evaluated once for every voxel inside of the {@link ImplicitShape.searchRegion}, so the region should be kept as small as possible.
+ */
+export class ImplicitShape extends BaseObject {
+   /**
+    * The function to voxelize, see {@link ImplicitFunction}
+    */
+   implicitFunction: ImplicitFunction
+   /**
+    * Only voxels inside this box are evaluated. Does not account for origin.
+    */
+   searchRegion: BoundingBox
+   /**
+    * Defines if only the boundary layer of the shape is kept (hollow) or not (filled)
+    */
+   shell: boolean
+   constructor(options: ImplicitShapeOptions) {
+      super({
+         controller: options.controller,
+         origin: options.origin,
+      })
+      this.controller.setReferenceEntry(this.uuid, this)
+      this.implicitFunction = options.implicitFunction
+      this.searchRegion = new BoundingBox({
+         boundingInputPayload: options.searchRegion.boundingBoxPointData,
+         inputType: BoundingBoxPayloadModes.TYPE_BOUNDING_DIRECTORY
+      })
+      this.shell = options.shell
+      this._fillVoxels = []
+      this.calculateBoundingBox()
+   }
+   /**
+    * Generates every voxel inside of the {@link ImplicitShape.searchRegion} where the {@link ImplicitShape.implicitFunction} is zero or negative.
+    *
+    * If {@link ImplicitShape.shell} is true, only voxels with a face neighbor outside of the shape are kept. Neighbors outside of the search region count as outside, so a shape cut by the region is still closed.
+    *
+    * Stores with fillVoxels, re-calculautes bounding box.
+    *
+    * @returns reference to this object, allows for method chaining.
+    */
+   generateImplicitShape(): this {
+      this._fillVoxels = []
+      const { xLow, xHigh, yLow, yHigh, zLow, zHigh } = this.searchRegion
+      const regionPointData = this.searchRegion.boundingBoxPointData
+      const isInsideShape = (voxel: Voxel): boolean => {
+         return BoundingBox.isInside(voxel, regionPointData) && this.implicitFunction(...voxel) <= 0
+      }
+      for (let x = Math.ceil(xLow); x <= xHigh; x++) {
+         for (let y = Math.ceil(yLow); y <= yHigh; y++) {
+            for (let z = Math.ceil(zLow); z <= zHigh; z++) {
+               let voxel: Voxel = [x, y, z]
+               if (!isInsideShape(voxel)) {
+                  continue;
+               }
+               if (this.shell && BaseObject.getFaceNeighbors(voxel).every(isInsideShape)) {
+                  continue;
+               }
+               this._fillVoxels.push(voxel)
+            }
+         }
+      }
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Changes the function, wipes the {@link ImplicitShape._fillVoxels}, calculautes required bounding box data.
+    * @param implicitFunction New function to voxelize
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeImplicitFunction(implicitFunction: ImplicitFunction): this {
+      this.implicitFunction = implicitFunction
+      this._fillVoxels = []
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Changes the search region (mutation free copy), wipes the {@link ImplicitShape._fillVoxels}, calculautes required bounding box data.
+    * @param searchRegion New box to search
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeSearchRegion(searchRegion: BoundingBox): this {
+      this.searchRegion = new BoundingBox({
+         boundingInputPayload: searchRegion.boundingBoxPointData,
+         inputType: BoundingBoxPayloadModes.TYPE_BOUNDING_DIRECTORY
+      })
+      this._fillVoxels = []
+      this.calculateBoundingBox()
+      return this
+   }
+}
+
+/**
+ * Options for the {@link Heightmap} constructor.
+ */
+export interface HeightmapOptions {
+   "controller": UUIDController,
+   "origin": Voxel,
+   /**
+    * A 2D grid of heights, where heights[i][j] is the height of the column at row i and column j. Heights are rounded to the nearest voxel.
+    */
+   "heights": number[][],
+   /**
+    * The index (0, 1 or 2) of the {@link Voxel} axis that the heights are measured along.
+    */
+   "upAxis": number,
+   /**
+    * The coordinate on the up axis that every column starts from.
+    */
+   "baseLevel": number,
+   /**
+    * If only the surface skin is generated (hollow) or the full columns (filled)
+    */
+   "shell": boolean
+}
+
+/**
+ * Generates terrain from a 2D grid of heights, where each entry of the grid becomes one column of voxels.
+ *
+ * @remarks
+ * The row index of the grid is placed on the lower of the two remaining axes, and the column index on the higher. For an up axis of 1 (Y), row i is X and column j is Z.
+ */
+export class Heightmap extends BaseObject {
+   /**
+    * A 2D grid of heights. Does not account for origin.
+    */
+   _heights: number[][]
+   /**
+    * The index of the {@link Voxel} axis that the heights are measured along.
+    */
+   upAxis: number
+   /**
+    * The coordinate on the up axis that every column starts from.
+    */
+   baseLevel: number
+   /**
+    * Defines if only the surface skin is generated (hollow) or the full columns (filled)
+    */
+   shell: boolean
+   constructor(options: HeightmapOptions) {
+      super({
+         controller: options.controller,
+         origin: options.origin,
+      })
+      this.controller.setReferenceEntry(this.uuid, this)
+      if ([0, 1, 2].indexOf(options.upAxis) === -1) {
+         throw new RangeError("Invalid Heightmap upAxis " + options.upAxis + ": must be 0, 1 or 2.")
+      }
+      this._heights = BaseObject.deepCopy(options.heights)
+      this.upAxis = options.upAxis
+      this.baseLevel = options.baseLevel
+      this.shell = options.shell
+      this._fillVoxels = []
+      this.calculateBoundingBox()
+   }
+   /**
+    * Generates a column of voxels for every entry of {@link Heightmap._heights} from the {@link Heightmap.baseLevel} to the height.
+    *
+    * If {@link Heightmap.shell} is true, each column only extends down to one voxel above the top of its lowest grid neighbor, where it shares a face with that neighbor, so the skin has no gaps on steep slopes.
+    * Columns below the base level extend up to one voxel below their highest grid neighbor in the same way.
+    *
+    * Stores with fillVoxels, re-calculautes bounding box.
+    *
+    * @returns reference to this object, allows for method chaining.
+    */
+   generateHeightmap(): this {
+      this._fillVoxels = []
+      const planeAxes = [0, 1, 2].filter(n => n !== this.upAxis)
+      const base = Math.round(this.baseLevel)
+      const getTop = (i: number, j: number): number | undefined => {
+         let row = this._heights[i]
+         return row === undefined || row[j] === undefined ? undefined : Math.round(row[j])
+      }
+      for (let i = 0; i < this._heights.length; i++) {
+         for (let j = 0; j < this._heights[i].length; j++) {
+            let top = getTop(i, j) as number
+            let low = Math.min(base, top)
+            let high = Math.max(base, top)
+            if (this.shell) {
+               let neighborTops = [getTop(i - 1, j), getTop(i + 1, j), getTop(i, j - 1), getTop(i, j + 1)].filter(n => n !== undefined) as number[]
+               if (top >= base) {
+                  low = Math.max(low, Math.min(top, ...neighborTops.map(n => n + 1)))
+               } else {
+                  high = Math.min(high, Math.max(top, ...neighborTops.map(n => n - 1)))
+               }
+            }
+            for (let level = low; level <= high; level++) {
+               let voxel: Voxel = [0, 0, 0]
+               voxel[planeAxes[0]] = i
+               voxel[planeAxes[1]] = j
+               voxel[this.upAxis] = level
+               this._fillVoxels.push(voxel)
+            }
+         }
+      }
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Changes the heights (mutation free copy), wipes the {@link Heightmap._fillVoxels}, calculautes required bounding box data.
+    * @param heights New 2D grid of heights
+    * @returns reference to this object, allows for method chaining.
+    */
+   changeHeights(heights: number[][]): this {
+      this._heights = BaseObject.deepCopy(heights)
+      this._fillVoxels = []
+      this.calculateBoundingBox()
+      return this
+   }
+}
+
+interface GroupRankingValue {
+   "i": [number, number],
+   "n": boolean
+}
+
+interface GroupRanking {
+   [key: string]: GroupRankingValue
+}
+
+/**
+ * @remarks 
+ * This type assertion is used for checking if a given string is a valid key of {@link SYNTAX_REGEX} 
+ */
+type REGEX_NAME_KEYS = keyof typeof SYNTAX_REGEX;
+/**
+ * @remarks 
+ * This type assertion is used for checking if a given string is a valid key of {@link OPS} 
+ */
+type OPS_TOKEN = keyof typeof OPS;
+/**
+ * @remarks
+ * This recursive type is used for the abstract syntax tree of various levels of embedded strings arrays. 
+ * The deeper the level of a string array is equal to the order of presedence the operation should be interpeted by:
+ * 
+ * [["A","+","B"],"*","C"] is equal to (A+B)*C
+ * 
+ * This AST should be exeucuted by doing A+B first and then multiply by C. 
+ */
+type AST = (string | AST)[];
+
+/**
+ * @remarks
+ * Contains all of the syntax tokens used by the {@link SetOperationsParser}.
+ */
+const SYNTAX_TOKENS = {
+   /**
+    * @remarks
+    * U+03A9
+    */
+   UNIVERSAL_SET: "Ω",
+   /**
+    * @remarks
+    * U+2205
+    */
+   NULL_SET: "∅",
+   /**
+    * @remarks
+    * U+222A 
+    * 
+    * Not Latin Letter U with value U+0055
+    */
+   UNION_OP: "∪",
+   /**
+    * @remarks
+    * U+2229
+    */
+   INTERSECTION_OP: "∩",
+   /**
+    * @remarks
+    * U+002D
+    */
+   SUBTRACTION_OP: "-",
+   /**
+    * @remarks
+    * U+2295
+    */
+   SYMM_DIFF_OP: "⊕",
+   /**
+    * @remarks
+    * U+0021
+    */
+   NEGATION_OP: "!",
+   /**
+    * @remarks
+    * U+0028
+    */
+   OPEN_PER: "(",
+   /**
+    * @remarks
+    * U+0029
+    */
+   CLOSE_PER: ")",
+   /**
+    * @remarks
+    * U+002D
+    */
+   IDENTATION: "-",
+   NOT_PLACE_HOLDER: "@"
+} as const
+
+/**
+ * @remarks
+ * Holds the valid modes as accepted by the {@link SetOperationsParser.useRegex}
+ */
+export enum SetOperationsParserAction {
+   /**
+    * @remarks
+    * This mode signifies to use the {@link RegExp.test} method upon the given string. 
+    */
+   TEST_MODE = 'TEST_MODE',
+   /**
+    * @remarks
+    * This mode signifies to use the {@link String.match} method upon the given string. 
+    */
+   MATCH_MODE = 'MATCH_MODE',
+}
+
+/**
+ * @remarks
+ * Holds all of the {@link RegExp} used by {@link SetOperationsParser.validateEquation} to check for syntax errors and 
+ * convert to a valid format for {@link SetOperationsParser.generateAST}.
+ */
+const SYNTAX_REGEX = {
+   /**
+    * @remarks
+    * Regular expression to split an equation string into the sub-tokens: 
+    * 
+    * /\\!*\\(|\\)|\\!*[a-zΩ∅]+|[∩⊕∪-]/gi
+    * 
+    * Splits at either:
+    * 
+    * 1) Zero or more negations followed by a opening grouping
+    * 2) A closing grouping
+    * 3) Zero or more negations followed by a varaible name or default set 
+    * 4) A set operation
+    * 
+    * Flags:
+    * 
+    * 1) Global
+    * 2) Case Insensitive
+    */
+   "CONVERSION_REGEX": new RegExp(`\\${SYNTAX_TOKENS.NEGATION_OP}*\\${SYNTAX_TOKENS.OPEN_PER}|\\${SYNTAX_TOKENS.CLOSE_PER}|\\${SYNTAX_TOKENS.NEGATION_OP}*[a-z${SYNTAX_TOKENS.UNIVERSAL_SET}${SYNTAX_TOKENS.NULL_SET}0-9]+|[${SYNTAX_TOKENS.INTERSECTION_OP}${SYNTAX_TOKENS.SYMM_DIFF_OP}${SYNTAX_TOKENS.UNION_OP}${SYNTAX_TOKENS.SUBTRACTION_OP}]`, "gi"),
+   /**
+ * @remarks
+ * Regular expression to check for invalid negation of a closing grouping: 
+ * 
+ * /\\!+\\)/gi
+ * 
+ * Splits at:
+ * 
+ * 1) One or more negations followed by an closing grouping
+ * 
+ * Flags:
+ * 
+ * 1) Global
+ * 2) Case Insensitive
+ */
+   "INVALID_NEGATION_CLOSE_PER_REGEX": new RegExp(`\\${SYNTAX_TOKENS.NEGATION_OP}+\\${SYNTAX_TOKENS.CLOSE_PER}`, "gi"),
+   /**
+     * @remarks
+     * Regular expression to check for opening grouping
+     * 
+     * /\\(/gi
+     * 
+     * Splits at:
+     * 
+     * 1) Each and every opening grouping
+     * 
+     * Flags:
+     * 
+     * 1) Global
+     * 2) Case Insensitive
+     */
+   "CLOSE_PER_COUNT_REGEX": new RegExp(`\\${SYNTAX_TOKENS.CLOSE_PER}`, "gi"),
+   /**
+ * @remarks
+ * Regular expression to check for opening grouping
+ * 
+ * /\\)/gi
+ * 
+ * Splits at:
+ * 
+ * 1) Each and every closing grouping
+ * 
+ * Flags:
+ * 
+ * 1) Global
+ * 2) Case Insensitive
+ */
+   "OPEN_PER_COUNT_REGEX": new RegExp(`\\${SYNTAX_TOKENS.OPEN_PER}`, "gi"),
+   /**
+   * @remarks
+   * Regular expression to check for invalid equation endings
+   * 
+   * /[(!∩⊕∪-]$/gi
+   * 
+   * Splits at a ending of:
+   * 
+   * 1) Opening grouping, set operation
+   * 
+   * Flags:
+   * 
+   * 1) Global
+   * 2) Case Insensitive
+   */
+   "INVALID_ENDING_REGEX": new RegExp(`[${SYNTAX_TOKENS.OPEN_PER}${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.INTERSECTION_OP}${SYNTAX_TOKENS.SYMM_DIFF_OP}${SYNTAX_TOKENS.UNION_OP}${SYNTAX_TOKENS.SUBTRACTION_OP}]$`),
+   /**
+    * @remarks
+    * Regular expression to check for invalid negation
+    * 
+    * /\\!+[-⊕]/gi
+    * 
+    * Splits at:
+    * 
+    * 1) One or more negations followed by a subtraction or symmertic difference
+    * 
+    * Note: These operations can only be negated if the encapsulated grouping is negated
+    * !(a-b) instead of (a!-b)
+    * 
+    * Flags:
+    * 
+    * 1) Global
+    * 2) Case Insensitive
+    */
+   "INVALID_OP_DIRECT_NEGATE_REGEX": new RegExp(`\\${SYNTAX_TOKENS.NEGATION_OP}+[${SYNTAX_TOKENS.SUBTRACTION_OP}${SYNTAX_TOKENS.SYMM_DIFF_OP}]`, "gi"),
+   /**
+   * @remarks
+   * Regular expression to check for invalid junction
+   * 
+   * /[Ω∅)a-z]+\\(|\\(\\)|[∩⊕∪-]+\\)|[Ω∅]{2,}/gi
+   * 
+   * Splits at either:
+   *
+   * 1) A varaible or defualt set followed by an opening grouping
+   * 2) A opening grouping followed by closing grouping
+   * 3) A operation followed by an closing grouping
+   * 4) Two or more defualt sets next to each other
+   * 
+   * Flags:
+   * 
+   * 1) Global
+   * 2) Case Insensitive
+   */
+   "INVALID_JUNCTION_REGEX": new RegExp(`[${SYNTAX_TOKENS.UNIVERSAL_SET}${SYNTAX_TOKENS.NULL_SET}${SYNTAX_TOKENS.CLOSE_PER}a-z]+\\${SYNTAX_TOKENS.OPEN_PER}|\\${SYNTAX_TOKENS.OPEN_PER}\\${SYNTAX_TOKENS.CLOSE_PER}|[${SYNTAX_TOKENS.INTERSECTION_OP}${SYNTAX_TOKENS.SYMM_DIFF_OP}${SYNTAX_TOKENS.UNION_OP}${SYNTAX_TOKENS.SUBTRACTION_OP}]+\\${SYNTAX_TOKENS.CLOSE_PER}|[${SYNTAX_TOKENS.UNIVERSAL_SET}${SYNTAX_TOKENS.NULL_SET}]{2,}`, "gi"),
+   /**
+  * @remarks
+  * Checks if a given character is a valid character as defined by static syntax.
+  * This expression is ran against each character in the string using {@link RegExp.test()} syntax.
+  * 
+  * /\\s|[a-z]|[Ω∅∪∩⊕!()-]/gi
+  * 
+  * Splits at either:
+  *
+  * 1) White space
+  * 2) a-z varaible name
+  * 3) Operation, negation, or groupings
+  * 
+  * Flags:
+  * 
+  * 1) Global
+  * 2) Case Insensitive
+  */
+   "VALID_CHAR_REGEX": new RegExp(`\\s|[a-z]|[${SYNTAX_TOKENS.UNIVERSAL_SET}${SYNTAX_TOKENS.NULL_SET}${SYNTAX_TOKENS.UNION_OP}${SYNTAX_TOKENS.INTERSECTION_OP}${SYNTAX_TOKENS.SYMM_DIFF_OP}${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.OPEN_PER}${SYNTAX_TOKENS.CLOSE_PER}${SYNTAX_TOKENS.SUBTRACTION_OP}]|\\d`, "gi")
+} as const
+/**
+    * @remarks
+    * The rankings of all of the equation syntax. The program decides what operations to do first based on ranking and then on left to right order
+    *
+    * 1) Opening Grouping: 3
+    * 2) Closing Grouping: 3
+    * 3) Negation: 2
+    * 4) Symmertic Difference: 1
+    * 5) Subtraction, Intersection, Union: 0
+    * 
+   */
+const OPS = {
+   [SYNTAX_TOKENS.OPEN_PER]: 3,
+   [SYNTAX_TOKENS.CLOSE_PER]: 3,
+   [SYNTAX_TOKENS.NEGATION_OP]: 2,
+   [SYNTAX_TOKENS.SYMM_DIFF_OP]: 1,
+   [SYNTAX_TOKENS.SUBTRACTION_OP]: 0,
+   [SYNTAX_TOKENS.INTERSECTION_OP]: 0,
+   [SYNTAX_TOKENS.UNION_OP]: 0
+} as const
+/**
+ * A final all static parser to convert discrete math equations into valid abstract syntax trees {@link AST}.
+ */
+export class SetOperationsParser {
+   /**
+    * @remarks
+    * Private constructor to support final class functionality
+    */
+   private constructor() { }
+   /**
+    * @remarks
+    * Retrives a mutation-free copy of the {@link SYNTAX_REGEX}
+    * @returns A dictionary where the key string is the name of the regex value.
+    */
+   static getAllRegex(): Record<string, RegExp> {
+      return Object.keys(SYNTAX_REGEX).reduce<Record<string, RegExp>>((prev, key) => {
+         return prev[key] = new RegExp(SYNTAX_REGEX[key as REGEX_NAME_KEYS].source, "gi"), prev;
+      }, {});
+   }
+   /**
+    * @remarks
+    * Retrieves the order of operations presidence of a given token in reference to other valid tokens
+    * @param token A valid key within {@link OPS}.
+    * @returns The value inclusively between 3 and 0 of the tokens order of operations.
+    */
+   static accessOPS(token: keyof typeof OPS): 3 | 2 | 1 | 0 {
+      return OPS[token];
+   }
+   /**
+    * @remarks
+    * Retrieves a mutation-free copy of the {@link OPS}
+    * @returns A dictionary where the key string is the token, and the value is the presdience.
+    */
+   static getOPS(): Record<string, number> {
+      return Object.assign({}, OPS);
+   }
+   /**
+    * @remarks
+    * The valid tokens for the {@link SetOperationsParser} as defined by {@link SYNTAX_TOKENS}
+    * @returns A dictionary where the key string is the name of the token, and the value is the token string.
+    */
+   static getSymbols(): Record<string, string> {
+      return {
+         UNIVERSAL_SET: SYNTAX_TOKENS.UNIVERSAL_SET,
+         NULL_SET: SYNTAX_TOKENS.NULL_SET,
+         UNION_OP: SYNTAX_TOKENS.UNION_OP,
+         INTERSECTION_OP: SYNTAX_TOKENS.INTERSECTION_OP,
+         SUBTRACTION_OP: SYNTAX_TOKENS.SUBTRACTION_OP,
+         SYMM_DIFF_OP: SYNTAX_TOKENS.SYMM_DIFF_OP,
+         NEGATION_OP: SYNTAX_TOKENS.NEGATION_OP,
+         OPEN_PER: SYNTAX_TOKENS.OPEN_PER,
+         CLOSE_PER: SYNTAX_TOKENS.CLOSE_PER,
+         IDENTATION: SYNTAX_TOKENS.IDENTATION,
+      }
+   }
+   /**
+    * @remarks
+    * Allows for use of the private syntax error checking RegExp outside of the {@link SetOperationsParser.validateEquation} context.
+    * The {@link SYNTAX_REGEX} are mutable due to the global flag. By using this method, the {@link RegExp.lastIndex} is reset each call 
+    * to prevent mutations across mutiple calls. Otherwise, pattern matching would return alternating results.
+    * @param name The name of the regular expression from {@link SYNTAX_REGEX}.
+    * @param str The string that will be pattern matched or tested against the RegExp.
+    * @param action The mode to specify either a matching to return a string array, or a test mode to return a boolean. Modes as per {@link SetOperationsParserAction}
+    * @returns 
+    */
+   static useRegex(name: REGEX_NAME_KEYS, str: string, action: keyof typeof SetOperationsParserAction) {
+      let regex: RegExp = new RegExp(SYNTAX_REGEX[`${name}`].source, "gi");
+      let matchResult: string[] | null;
+      let boolResult = false;
+      if (action === SetOperationsParserAction.TEST_MODE) {
+         boolResult = regex.test(str);
+         regex.lastIndex = 0;
+         return boolResult;
+      } else if (action === SetOperationsParserAction.MATCH_MODE) {
+         matchResult = str.match(regex);
+         regex.lastIndex = 0;
+         return matchResult === null ? [] : matchResult
+      } else {
+         throw new TypeError("Invalid Action: " + action)
+      }
+   }
+   /**
+    * @remarks
+    * Takes in a string equation, checks for syntax errors via the {@link SYNTAX_REGEX}, reduces reduces complexity via basic identities, 
+    * returns an array of tokens in {@link SetOperationsParser.generateAST} format via {@link SYNTAX_REGEX.CONVERSION_REGEX} 
+    * @param str Equation in a string format.
+    * @returns Valid AST generation format for input into {@link SetOperationsParser.generateAST}.
+    * @throws {@link TypeError} If a syntax error is encountered. 
+    */
+   static validateEquation(str: string): string[] {
+      // Filter whitespace
+      str = str.split("").filter(x => !/\s/.test(x)).join("")
+
+      /**
+       * @remarks
+       * Used to store tokens, both for comparison and error throwing, throughout the validation process.
+       */
+      let errorTokens: string[] | boolean;
+
+      // Invalid characters are those not a-zA-Z and are not static symbols
+      for (let i = 0; i < str.length; i++) {
+         errorTokens = SetOperationsParser.useRegex("VALID_CHAR_REGEX", str[i], SetOperationsParserAction.TEST_MODE);
+         if (!errorTokens) {
+            throw new TypeError(`VALID_CHAR_REGEX | Unable to validate equationString "${str}": Invalid token ${str[i]}`)
+         }
+      }
+
+      errorTokens = SetOperationsParser.useRegex("INVALID_NEGATION_CLOSE_PER_REGEX", str, SetOperationsParserAction.TEST_MODE);
+
+      if (errorTokens instanceof Array && errorTokens.length > 0) {
+         throw new TypeError(`INVALID_NEGATION_CLOSE_PER_REGEX | Unable to validate equationString "${str}": Cannot pre negate "${SYNTAX_TOKENS.NEGATION_OP}" closing grouping syntax "${SYNTAX_TOKENS.CLOSE_PER}" with tokens "${errorTokens[0]}" `)
+      }
+
+
+
+      let cper = SetOperationsParser.useRegex("CLOSE_PER_COUNT_REGEX", str, SetOperationsParserAction.MATCH_MODE);
+      let oper = SetOperationsParser.useRegex("OPEN_PER_COUNT_REGEX", str, SetOperationsParserAction.MATCH_MODE);
+      if (oper instanceof Array && cper instanceof Array && cper.length !== oper.length) {
+         throw new TypeError(`CLOSE_PER_COUNT_REGEX, OPEN_PER_COUNT_REGEX | Unable to validate equationString "${str}": unequal amount of starting and ending grouping syntax`)
+      }
+
+      errorTokens = SetOperationsParser.useRegex("INVALID_ENDING_REGEX", str, SetOperationsParserAction.MATCH_MODE)
+
+      if (errorTokens instanceof Array && errorTokens.length > 0) {
+         throw new TypeError(`INVALID_ENDING_REGEX | Unable to validate equationString "${str}": Ends with operator, negation or opening grouping syntax token: "${errorTokens}"`);
+      }
+
+
+      errorTokens = SetOperationsParser.useRegex("INVALID_OP_DIRECT_NEGATE_REGEX", str, SetOperationsParserAction.MATCH_MODE)
+
+      if (errorTokens instanceof Array && errorTokens.length > 0) {
+         throw new TypeError(`INVALID_OP_DIRECT_NEGATE_REGEX | Unable to validate equationString "${str}": Cannot directly negate symmetric difference or subtraction operator "${errorTokens}"`)
+      }
+
+      errorTokens = SetOperationsParser.useRegex("INVALID_JUNCTION_REGEX", str, SetOperationsParserAction.MATCH_MODE)
+
+      if (errorTokens instanceof Array && errorTokens.length > 0) {
+         throw new TypeError(`INVALID_JUNCTION_REGEX | Unable to validate equationString "${str}": Invalid Junction between two tokens "${errorTokens}"`)
+      }
+      /* 
+        Replace negation operations, Optimization
+      */
+      str = str.replaceAll(`${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.NEGATION_OP}`, "")
+      str = str.replaceAll(`${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.INTERSECTION_OP}`, `${SYNTAX_TOKENS.UNION_OP}`)
+      str = str.replaceAll(`${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.UNION_OP}`, `${SYNTAX_TOKENS.INTERSECTION_OP}`)
+      str = str.replaceAll(`${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.UNIVERSAL_SET}`, `${SYNTAX_TOKENS.NULL_SET}`)
+      str = str.replaceAll(`${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.NULL_SET}`, `${SYNTAX_TOKENS.UNIVERSAL_SET}`)
+      // Remove the grouping if they are the first and last elements in the string
+      if (oper instanceof Array && cper instanceof Array && cper.length === 1 && oper.length === 1 && str[0] === SYNTAX_TOKENS.OPEN_PER && str[str.length - 1] === SYNTAX_TOKENS.CLOSE_PER) {
+         str = str.replace(`${SYNTAX_TOKENS.OPEN_PER}`, "").replace(`${SYNTAX_TOKENS.CLOSE_PER}`, "");
+      }
+      return SetOperationsParser.useRegex("CONVERSION_REGEX", str, SetOperationsParserAction.MATCH_MODE) as string[];
+   }
+   /**
+    * @remarks
+    * Distributes the negation operation to a AST, recursively goes down all levels of the AST. Any branches that start with "NOT" as the first token in the expression will not be distrubuted to.
+    * @param eq The AST
+    * @param log boolean to siginify if the program should log the process to the console.
+    * @param depth Level of depth for this current recursive call. Can be any number 0 and above.
+    * @returns The negated AST.
+    */
+   static _distrubuteNegate(eq: AST, log: boolean, depth: number): AST {
+      let str = "";
+      for (let i = 0; i < depth; i++) {
+         str += SYNTAX_TOKENS.IDENTATION;
+      }
+      if (log) {
+         console.log(str + "Distrubting negation to: " + JSON.stringify(eq))
+      }
+      for (let i = 0; i < eq.length; i++) {
+         if (eq[i] === SYNTAX_TOKENS.SYMM_DIFF_OP) {
+            throw new TypeError("Processing error: can not directly negate SYMM_DIFF_OP: " + eq[i])
+         }
+         if (Array.isArray(eq[i]) && eq[i] as AST) {
+            if (log) {
+               console.log(str + " Activiated distribution to sub-AST")
+            }
+            eq[i] = SetOperationsParser._distrubuteNegate(eq[i] as AST, log, depth)
+         } else if (eq[i] === SYNTAX_TOKENS.UNION_OP) {
+            eq[i] = SYNTAX_TOKENS.INTERSECTION_OP
+         } else if (eq[i] === SYNTAX_TOKENS.INTERSECTION_OP) {
+            eq[i] = SYNTAX_TOKENS.UNION_OP
+         } else if (eq[i] === SYNTAX_TOKENS.NEGATION_OP) {
+            eq[i] = ""
+         } else if (typeof eq[i] === 'string' && (eq[i] as string).split("")[0] === SYNTAX_TOKENS.NEGATION_OP) {
+            eq[i] = eq[i].slice(1, eq[i].length)
+         } else if (eq[i] === SYNTAX_TOKENS.SUBTRACTION_OP) {
+            if (log) {
+               console.log(str + "Subtraction negation detected, switching to union and halting")
+            }
+            // Cuts off last operation to satifsy !(a-b) = !a U b;
+            eq[i] = SYNTAX_TOKENS.UNION_OP;
+            return eq;
+         } else if (eq[i] === SYNTAX_TOKENS.UNIVERSAL_SET) {
+            eq[i] = SYNTAX_TOKENS.NULL_SET;
+         } else if (eq[i] === SYNTAX_TOKENS.NULL_SET) {
+            eq[i] = SYNTAX_TOKENS.UNIVERSAL_SET;
+         } else {
+            eq[i] = [SYNTAX_TOKENS.UNIVERSAL_SET, SYNTAX_TOKENS.SUBTRACTION_OP, eq[i]]
+            console.log(str + "Setting to Universal minus " + eq[i]);
+         }
+      }
+      return eq;
+   }
+   /**
+    * @remarks
+    * Generate and returns a abstract syntax tree {@link AST} that represents the presidence of solving the equation.
+    * @param eq The AST at this level. The inital input is an array of strings from {@link SetOperationsParser.validateEquation}.
+    * @param log boolean to siginify if the program should log the process to the console, default value of false.
+    * @param depth Level of depth for this current recursive call. Can be any number 0 (default) and above initally.
+    * @returns When the call stack collapses, the method will return an AST. During the recursive process, the method could flatten various levels of the AST
+    * to simplify expressions resulting in a string return type.
+    */
+   static generateAST(eq: AST, log: boolean, depth = 0): AST | string {
+      let string = ""
+      if (log) {
+         for (let i = 0; i <= depth; i++) {
+            string += SYNTAX_TOKENS.IDENTATION
+         }
+         console.log(string + "Input EQ: " + JSON.stringify(eq));
+         console.log(string + "Length of EQ: " + (eq.length))
+         depth += 1
+      }
+      /**
+   * @remarks
+   * The index of the variable on the left side of the operation.
+   */
+      let startIndex: number = -1;
+      /**
+       * @remarks
+       * The index of the variable on the right side of the operation.
+       */
+      let endIndex: number = -1;
+      /**
+      * @remarks
+      * The index of the operation.
+      */
+      let opIndex: number = -1;
+      /**
+       * @remarks
+       * The value of this operation as stored in {@link OPS} accessiable via {@link SetOperationsParser.accessOPS}
+       */
+      let indexValue: number = -1;
+      /**
+       * @remarks
+       * Stores the indicies of all of the opening grouping tokens, used to decide {@link perStartIndex}.
+       */
+      let startPerArray: number[] = [];
+      /**
+       * @remarks
+       * Stores the indicies of all of the closing grouping tokens, used to decide {@link perEndIndex}.
+       */
+      let endPerArray: number[] = [];
+      /**
+       * @remarks
+       * Stores the indicies of all of the negated opening grouping tokens, has overlap with {@link startPerArray}.
+       */
+      let negatedPerArray: number[] = [];
+      /** 
+       * @remarks
+       * Stores the indicies of all of the symmertic difference operations. This is important, because if a SD is within a negated
+       * grouping, special conversion processes need to take place before {@link SetOperationsParser._distrubuteNegate} 
+       * is called upon that section of the AST.
+       */
+      let symmPerArray: number[] = [];
+
+      if (eq.length <= 2) {
+         if (log) {
+            console.log(string + "Equation length is <= 2, returning equation")
+         }
+         return [...eq]
+      }
+
+      // The first step is to gather metadata about the AST.
+
+      for (let i = 0; i < eq.length; i++) {
+         let token = eq[i]
+         if (log) {
+            console.log(string + "Checking Token: " + JSON.stringify(token))
+         }
+         // Remove double or more negation
+
+         if (!Array.isArray(token) && token.startsWith("!!")) {
+            if (log) {
+               console.log(string + "Token starts with n >= 2 negation: " + token)
+            }
+            // If the negation amount is odd, make it a single negation. Otherwise, no negation.
+            let testToken = token.split("");
+            token = (testToken.slice(0, testToken.length - 1).length % 2 === 0 ? "" : SYNTAX_TOKENS.NEGATION_OP) + testToken[testToken.length - 1];
+            if (log) {
+               console.log(string + "Converted Token starts with n >= 2 negation: " + token)
+            }
+            eq[i] = token;
+         }
+
+         if (token === SYNTAX_TOKENS.SYMM_DIFF_OP) {
+            symmPerArray.push(i);
+         }
+
+         // Gather negated grouping information.
+         if (!Array.isArray(token) && token.startsWith(SYNTAX_TOKENS.NEGATION_OP)) {
+            if (log) {
+               console.log(string + "Token starts with negation")
+            }
+            token = token.split("")
+            if (token[1] === SYNTAX_TOKENS.OPEN_PER) {
+               if (log) {
+                  console.log(string + "Token is negating open Grouping")
+               }
+               negatedPerArray.push(i)
+            }
+            /*
+               * 1) This does not mutate the original eq equation, 
+               * Only changes the value of the token to exclude the negation: "!(" is changed to "(" locally only within the loop.
+               * This allows for startPerArray to also pick it up using an "token === SYNTAX_TOKENS.OPEN_PER" comaparision.
+               * 2) We also do this because typeScript is not smart enough to recongize that the "!Array.isArray(token)" guarding block
+               * is preventing any arrays (AST) from entering this section of code. 
+               * To TypeScript, any use of eq[i] can be either an AST or string, 
+               * regardless of the actual value at that index and any guarding block it is witihin.
+               * The solution is type asserstion as an key of OPS, while choosing a set numerical value (token[i] as OPS_TOKEN doesn't work)
+            */
+            token = token[1] as OPS_TOKEN;
+            if (!OPS.hasOwnProperty(token)) {
+               eq[i] = [SYNTAX_TOKENS.UNIVERSAL_SET, SYNTAX_TOKENS.SUBTRACTION_OP, token]
+               if (log) {
+                  console.log(string + "Activated Token is negating set: " + JSON.stringify(eq[i]))
+               }
+            }
+         }
+         if (token === SYNTAX_TOKENS.OPEN_PER) {
+            startPerArray.push(i)
+         }
+         else if (token == SYNTAX_TOKENS.CLOSE_PER) {
+            endPerArray.push(i)
+         }
+         /*
+         This IS a set operation token
+         AND
+         Either {
+           Index value IS undefined
+           OR
+           This token's index value is GREATER than the previous stored index value
+         }
+         AND NOT {
+            A symmertic difference operater AND followed by an negated opening group
+         }
+    
+         - In the edge case of: [[[["Ω","-","a"],"∩",["Ω","-","b"]],"∪",["a","∩","b"]],"⊕","!(","a","⊕","b",")"]
+         - This program will favor the first symmertic difference, and choose end varaible as "!(", causing an error.
+         - This is prevented by the AND NOT edge case check.
+         
+         */
+         else if (OPS.hasOwnProperty(token as OPS_TOKEN)
+            && (indexValue === undefined || OPS[token as OPS_TOKEN] > indexValue)
+            && !(token === SYNTAX_TOKENS.SYMM_DIFF_OP && eq[i + 1] === `${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.OPEN_PER}`)) {
+            if (log) {
+               console.log(string + "Activated operation identification loop condition")
+            }
+            indexValue = OPS[token as OPS_TOKEN];
+            endIndex = i + 1;
+            startIndex = i - 1;
+            opIndex = i;
+         }
+      }
+
+      // The base case is if the equation is 3 tokens including arrays
+      // However, instances such as ["!(",["a","⊕","b"],")"] may cause this to activate, 
+      // so their can't be parenthsis
+
+      if (eq.length === 3 && startPerArray.length === 0 && endPerArray.length === 0) {
+         if (log) {
+            console.log(string + "Activated EQ Length is 3");
+         }
+
+
+         // Optimizations
+         if (JSON.stringify(eq[0]) === JSON.stringify(eq[2])) {
+            if (eq[1] === SYNTAX_TOKENS.INTERSECTION_OP || eq[1] === SYNTAX_TOKENS.UNION_OP) {
+               if (log) {
+                  console.log(string + "Activated L3 Intersection or Union with self, returning self");
+               }
+               return depth === 1 ? [eq[0]] : eq[0]
+            }
+            if (eq[1] === SYNTAX_TOKENS.SYMM_DIFF_OP || eq[1] === SYNTAX_TOKENS.SUBTRACTION_OP) {
+               if (log) {
+                  console.log(string + "Activated L3 Symmertic Difference or subtraction with itself returning null");
+               }
+               return depth === 1 ? [SYNTAX_TOKENS.NULL_SET] : SYNTAX_TOKENS.NULL_SET
+            }
+         }
+         // If the left or right side of the equation is a null set
+         if (eq[0] === SYNTAX_TOKENS.NULL_SET || eq[2] === SYNTAX_TOKENS.NULL_SET) {
+            // Intersection them returns a null set
+            if (eq[1] === SYNTAX_TOKENS.INTERSECTION_OP) {
+               if (log) {
+                  console.log(string + "L3: Activated intersection null");
+               }
+               return SYNTAX_TOKENS.NULL_SET
+            } else if (eq[1] === SYNTAX_TOKENS.UNION_OP || eq[1] === SYNTAX_TOKENS.SYMM_DIFF_OP) {
+               if (log) {
+                  console.log(string + "L3: Activated union null");
+               }
+               return eq[0] === SYNTAX_TOKENS.NULL_SET ? depth === 1 ? [eq[2]] : eq[2] : depth === 1 ? [eq[0]] : eq[0]
+            } else if (eq[1] === SYNTAX_TOKENS.SUBTRACTION_OP) {
+               if (log) {
+                  console.log(string + "L3: Activiated set subtraction with null set");
+               }
+               /* In SQL, null minus null yeilds null so I apply this logic */
+               // null - set
+               if (eq[0] === SYNTAX_TOKENS.NULL_SET) {
+                  return depth === 1 ? [SYNTAX_TOKENS.NULL_SET] : SYNTAX_TOKENS.NULL_SET;
+               } else {
+                  // set - null
+                  return depth === 1 ? [eq[0]] : eq[0];
+               }
+            }
+         }
+         // a set minus the universal leaves nothing left over.
+         if (eq[1] === SYNTAX_TOKENS.SUBTRACTION_OP && eq[2] === SYNTAX_TOKENS.UNIVERSAL_SET) {
+            if (log) {
+               console.log(string + "L3: Activated minus universal set equals null")
+            }
+            return depth === 1 ? [SYNTAX_TOKENS.NULL_SET] : SYNTAX_TOKENS.NULL_SET;
+         }
+         // union to a universal set
+         if ((eq[1] === SYNTAX_TOKENS.UNION_OP) && (eq[0] === SYNTAX_TOKENS.UNIVERSAL_SET || eq[2] === SYNTAX_TOKENS.UNIVERSAL_SET)) {
+            if (log) {
+               console.log(string + "L3: Activated union universal set equals universal")
+            }
+            return depth === 1 ? [SYNTAX_TOKENS.UNIVERSAL_SET] : SYNTAX_TOKENS.UNIVERSAL_SET
+         }
+
+         // intersection to a universal set
+
+         if ((eq[1] === SYNTAX_TOKENS.INTERSECTION_OP) && (eq[0] === SYNTAX_TOKENS.UNIVERSAL_SET || eq[2] === SYNTAX_TOKENS.UNIVERSAL_SET)) {
+            if (log) {
+               console.log(string + "L3: Activated intersection universal set")
+            }
+            return eq[0] === SYNTAX_TOKENS.UNIVERSAL_SET ? depth === 1 ? [eq[2]] : eq[2] : depth === 1 ? [eq[0]] : eq[0]
+         }
+         if (log) {
+            console.log(string + "L3: Returning eq")
+         }
+         return [...eq];
+      }
+      if (symmPerArray.length > 0) {
+         if (log) {
+            console.log(string + "Amount of Symmertries: " + symmPerArray.length)
+         }
+      }
+      /// This should be detected if the equation is validated, but parser errors can happen.
+      if (startPerArray.length !== endPerArray.length) {
+         console.log(eq, startPerArray, endPerArray)
+         throw new Error("Invalid Amount of Grouping");
+      }
+
+      // From here, figure out the most embedded group of parenthesis.
+      let groupRanking: GroupRanking = {}
+      let groupCounter = 0;
+      // If their is closing or opening grouping.
+      let allPerArray = [...startPerArray, ...endPerArray]
+      while (allPerArray.length > 0) {
+         let perStartIndex: number = -1;
+         let perEndIndex: number = -1;
+         allPerArray = [...startPerArray, ...endPerArray]
+         // Create a list of all the indicies of the grouping
+         // For all opening paratntehis
+         startLoop: for (const openPerIter of startPerArray) {
+            // Set the new startIndex for the next equation subsection
+            perStartIndex = openPerIter;
+            // for each end grouping
+            endLoop: for (const endPerIter of endPerArray) {
+               // If the end grouping is before the opening e.x. (a-b)+(c+d) compaing closing of left to opening of right term.
+               if (endPerIter <= openPerIter) {
+                  // Continue because this is an invalid grouping.
+                  continue;
+               }
+               // Loop through all other grouping
+               for (const allPerIter of allPerArray) {
+                  // if any other parenteshsis fall between this start and end,
+                  // then this is not the most embedded group
+                  if (allPerIter > openPerIter && allPerIter < endPerIter) {
+                     continue endLoop;
+                  }
+               }
+               // If we manage to get through without causing a continue,
+               // then set the endIndex to this end paretthesis and break the process.
+               groupCounter++;
+               perEndIndex = endPerIter;
+               groupRanking[`${groupCounter}`] = {
+                  "i": [perStartIndex, perEndIndex],
+                  "n": eq[perStartIndex] === `${SYNTAX_TOKENS.NEGATION_OP}${SYNTAX_TOKENS.OPEN_PER}`
+               }
+               startPerArray = startPerArray.filter((v, i) => i !== startPerArray.indexOf(perStartIndex))
+               endPerArray = endPerArray.filter((v, i) => i !== endPerArray.indexOf(perEndIndex))
+               break startLoop;
+            }
+         }
+      }
+
+      let targetOpeningPer: number = -1;
+      let targetClosingPer: number = -1;
+      let negatedOpeningPer: number = -1;
+      let negatedClosingPer: number = -1;
+      let groupRankingKeys: string[] = Object.keys(groupRanking);
+      if (groupRankingKeys.length > 0) {
+         targetOpeningPer = groupRanking["1"]["i"][0];
+         targetClosingPer = groupRanking["1"]["i"][1];
+         let closetRanking: number = -1
+         for (let key of groupRankingKeys) {
+            // Find the negating grouping that is the closet depth to our current opening and closing.
+            if (groupRanking[key as keyof typeof groupRanking]["n"] &&
+               // Surronds the current non-negating grouping
+               groupRanking[key]["i"][0] <= targetOpeningPer &&
+               groupRanking[key]["i"][1] >= targetClosingPer &&
+               // This ranking is closer to 0 as possible
+               (Number(key) < closetRanking || closetRanking === -1)) {
+               closetRanking = Number(key);
+               negatedOpeningPer = groupRanking[key]["i"][0];
+               negatedClosingPer = groupRanking[key]["i"][1];
+            }
+         }
+      }
+      if (log) {
+         console.log(string + "Grouping Ranking" + JSON.stringify(groupRanking))
+         console.log(string + "Target Opening Grouping Index " + targetOpeningPer)
+         console.log(string + "Target Closing Grouping Index " + targetClosingPer)
+         console.log(string + "Target Negated Opening Grouping Index " + negatedOpeningPer)
+         console.log(string + "Target Negated Opening Grouping Index " + negatedClosingPer)
+      }
+      // If their is grouping that is being negated, their may be symmertic differences within that parenthesis that are being negated.
+
+      // If we have a negation somewhere in the array.
+      if (negatedClosingPer !== -1 && negatedOpeningPer != -1) {
+         if (log) {
+            console.log(string + "Activiated Symmertric Difference negation check")
+         }
+         // Check if a symmertic difference is between it at any level.
+         for (let i = 0; i < symmPerArray.length; i++) {
+            // If this symmsertic difference is between the negation grouping
+            if (symmPerArray[i] > negatedOpeningPer && symmPerArray[i] < negatedClosingPer) {
+               if (log) {
+                  console.log(string + `Symmertic difference at index ${symmPerArray[i]} is being negated.`)
+               }
+               eq[negatedOpeningPer] = `${SYNTAX_TOKENS.OPEN_PER}`
+               return SetOperationsParser.generateAST([...eq.slice(0, negatedOpeningPer), [SYNTAX_TOKENS.UNIVERSAL_SET, SYNTAX_TOKENS.SUBTRACTION_OP, SetOperationsParser.generateAST([...eq.slice(negatedOpeningPer + 1, negatedClosingPer)], log, depth)], ...eq.slice(negatedClosingPer + 1, eq.length)], log, depth)
+            }
+         }
+      }
+      // Otherwise, if the start index for the most embedded grouping is also being negated "!(a+b)"
+      else if (negatedClosingPer !== -1 && negatedOpeningPer != -1) {
+         if (log) {
+            console.log(string + "Activated Negated Grouping is startIndex")
+         }
+         // Previously, this operation on token did not mutate. Now we mutate the equation and remove the negative.
+         eq[targetOpeningPer] = SYNTAX_TOKENS.OPEN_PER
+         // Then, distrubute that grouping and all of the sub-groupings.
+         eq = [...eq.slice(0, targetOpeningPer), ...this._distrubuteNegate(eq.slice(targetOpeningPer + 1, targetClosingPer), log, depth), ...eq.slice(targetClosingPer + 1, eq.length)]
+         if (log) {
+            console.log(string + "Combined and negated equation: " + JSON.stringify(eq))
+         }
+         // Otherwise, if this grouping is not being negated, then group all of the elements within that group into a new array
+         // This gives presidence to that section of the AST.
+      } else if (targetOpeningPer !== -1 && targetClosingPer !== -1) {
+         if (log) {
+            console.log(string + "Activated startPerArray Length Condition because their are " + startPerArray.length + " opening grouping syntax, target grouping syntax is at EQ startIndex: " + targetOpeningPer)
+         }
+         eq = [...eq.slice(0, targetOpeningPer), SetOperationsParser.generateAST(eq.slice(targetOpeningPer + 1, targetClosingPer), log, depth), ...eq.slice(targetClosingPer + 1, eq.length)];
+      }
+      // Otherwise, no grouping, just a pure A+B+C for example.
+      else {
+         if (log) {
+            console.log(string + "Operation Index: " + opIndex)
+         }
+         // Turns ["A","+","B","+","C"] into [["A","+","B"],"+","C"]
+         eq = [...eq.slice(0, startIndex), SetOperationsParser.generateAST([eq[startIndex], eq[opIndex], eq[endIndex]], log, depth), ...eq.slice(endIndex + 1, eq.length)];
+      }
+      // After all of this, put it back through the the parser again.
+      // Need to use new varaible here because EQ is always an array, and since the collapse of the call may return a
+      // string, we need to allow it to accept both because typescript.
+      let newEq: string | AST = SetOperationsParser.generateAST(eq, log, depth)
+      if (log) {
+         console.log(string + "Equation is finalized, pushing to the tree")
+      }
+      console.log(string + JSON.stringify(newEq))
+      // Then, pass this section of the AST back into the final AST. Collapse and return final result if at bottom of call stack.
+      return newEq
+   }
+}
+/**
+ * @remarks
+ * Acts as a interface to {@link SetOperationsParser} with pass through methods and the storage of equation data.
+ */
+export class SetOperationsEquation {
+   /**
+    * @remarks
+    * Stores the current equation pre-AST generation
+    */
+   equationString: string;
+   /**
+    * If the {@link SetOperationsParser.generateAST} should produce a log to the console.
+    */
+   log: boolean;
+   /**
+    * The output of passing {@link SetOperationsEquation.equationString} through {@link SetOperationsParser.validateEquation}
+    */
+   validEquationArray: string[];
+   /**
+    * The output of passing {@link SetOperationsEquation.validEquationArray} through {@link SetOperationsParser.generateAST}.
+    * This AST is stored as private to create a mutation-free storage. 
+    */
+   private equationAST: AST = [];
+   /**
+    * @remarks
+    * Constructs a new {@link SetOperationsEquation}. 
+    * @param str The string equation to create a new AST from
+    * @param log Log production flag for {@link SetOperationsParser.generateAST}
+    */
+   constructor(str: string, log: boolean) {
+      this.equationString = str;
+      this.log = log;
+      this.validEquationArray = [];
+   }
+   /**
+    * @remarks
+    * Accepts a new string as the {@link SetOperationsEquation.equationString}, resets all attributes accept {@link SetOperationsEquation.log} 
+    * @param str New equation strng
+    */
+   changeEquation(str: string) {
+      this.equationString = str;
+      this.validEquationArray = [];
+      this.equationAST = [];
+   }
+   /**
+    * @remarks
+    * To be called before {@link SetOperationsEquation.generateAST}.
+    * Pass through functon to {@link SetOperationsParser.validateEquation} with {@link SetOperationsEquation.equationString} as the arguement.
+    */
+   validateEquation() {
+      this.validEquationArray = SetOperationsParser.validateEquation(this.equationString);
+   }
+   /**
+    * @remarks
+    * To be called after {@link SetOperationsEquation.validateEquation}.
+    * Pass through functon to {@link SetOperationsParser.generateAST} with arguments {@link SetOperationsEquation.validEquationArray}, 
+    * {@link SetOperationsEquation.log}, and inital depth of zero.
+    */
+   generateAST() {
+      this.equationAST = SetOperationsParser.generateAST([...this.validEquationArray], this.log, 0) as AST;
+   }
+   /**
+    * @remarks
+    * Returns stored AST
+    * @returns Uses {@link JSON.parse} of {@link JSON.stringify} to return a deep copy of the AST.
+    */
+   getAST(): AST {
+      return JSON.parse(JSON.stringify(this.equationAST));
+   }
+}
+
+export interface CompositeOptions {
+   "controller": UUIDController,
+   "origin": Voxel
+   "log": boolean,
+   "variableNames": Record<string, BaseObject>
+}
+
+/**
+ * Decides what the array methods of {@link VoxelCollection}, such as {@link VoxelCollection.linearArray}, return.
+ */
+export enum ArrayReturnModes {
+   /**
+    * One collection of every copy, where voxels shared by copies are only stored once.
+    */
+   "RETURN_MODE_MERGED" = "RETURN_MODE_MERGED",
+   /**
+    * One collection per copy, in placement order.
+    */
+   "RETURN_MODE_INSTANCES" = "RETURN_MODE_INSTANCES"
+}
+
+export interface CollectionOptions {
+   "controller": UUIDController,
+   "origin": Voxel
+   "fillVoxels": Voxel[]
+}
+
+/**
+ * Acts as a median to {@link BaseObject} when the user may simply want to store voxels without them belonging to a particular shape.
+ * 
+ * Used by {@link CompositeVoxelCollection} to temporarily hold the intersection voxels between shapes 
+ * 
+ * Alows the user to pass in an array of voxels for storage
+ */
+export class VoxelCollection extends BaseObject {
+   constructor(options: CollectionOptions) {
+      super({
+         "controller": options.controller,
+         "origin": options.origin
+      })
+      this._fillVoxels = []
+      BaseObject.push2D(options.fillVoxels, this._fillVoxels)
+      this.calculateBoundingBox()
+   }
+   setFillVoxels(newVoxels: Voxel[]): this {
+      this._fillVoxels = []
+      BaseObject.push2D(newVoxels, this._fillVoxels)
+      this.calculateBoundingBox()
+      return this
+   }
+   addFillVoxels(newVoxels: Voxel[]): this {
+      BaseObject.push2D(newVoxels, this._fillVoxels)
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Removes the voxels that can not be on a convex hull, keeping only the first and last voxel along every X, Y and Z line.
+    * @param voxels Voxels, does not mutate
+    * @returns The remaining voxels without duplicates
+    */
+   static #hullCandidates(voxels: Voxel[]): Voxel[] {
+      let candidates: Record<string, Voxel> = {}
+      for (let axis = 0; axis < 3; axis++) {
+         let lines: Record<string, [Voxel, Voxel]> = {}
+         for (let voxel of voxels) {
+            let key = voxel.filter((n, i) => i !== axis).join(",")
+            let line = lines[key]
+            if (line === undefined) {
+               lines[key] = [voxel, voxel]
+            } else if (voxel[axis] < line[0][axis]) {
+               line[0] = voxel
+            } else if (voxel[axis] > line[1][axis]) {
+               line[1] = voxel
+            }
+         }
+         for (let line of Object.values(lines)) {
+            candidates[line[0].join(",")] = line[0]
+            candidates[line[1].join(",")] = line[1]
+         }
+      }
+      return Object.values(candidates)
+   }
+   /**
+    * @returns Positive if d is on the side of the plane through a, b and c that its normal (b - a) x (c - a) points to, zero if on the plane.
+    */
+   static #orientation(a: Voxel, b: Voxel, c: Voxel, d: Voxel): number {
+      let u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]]
+      let v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]]
+      let w = [d[0] - a[0], d[1] - a[1], d[2] - a[2]]
+      return w[0] * (u[1] * v[2] - u[2] * v[1]) + w[1] * (u[2] * v[0] - u[0] * v[2]) + w[2] * (u[0] * v[1] - u[1] * v[0])
+   }
+   /**
+    * Creates the 3D convex hull around all voxels of the given objects, the smallest convex shape that contains all of them.
+    *
+    * The hull faces are found incrementally, adding one voxel at a time and replacing the faces it can see. Voxels that lie on the flat or straight hull of a
+    * coplanar or collinear set are handled separately.
+    *
+    * @param objects Objects to wrap, their origins are included.
+    * @param shell If only the surface voxels of the hull should be returned, otherwise the filled hull.
+    * @returns A new collection at origin [0, 0, 0] that uses the controller of the first object.
+    * @throws {@link RangeError} If the objects have no voxels.
+    */
+   static convexHull(objects: BaseObject[], shell: boolean): VoxelCollection {
+      let allVoxels: Voxel[] = []
+      for (let object of objects) {
+         BaseObject.push2D(object.getFillVoxels(), allVoxels)
+      }
+      if (allVoxels.length === 0) {
+         throw new RangeError("Unable to create a convex hull: the given objects have no voxels.")
+      }
+      let points = VoxelCollection.#hullCandidates(allVoxels)
+      const lengthSquared = (a: Voxel, b: Voxel) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2
+      const crossLengthSquared = (a: Voxel, b: Voxel, c: Voxel) => {
+         let u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]]
+         let v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]]
+         return (u[1] * v[2] - u[2] * v[1]) ** 2 + (u[2] * v[0] - u[0] * v[2]) ** 2 + (u[0] * v[1] - u[1] * v[0]) ** 2
+      }
+      // Find a starting tetrahedron: the furthest point, then furthest from that line, then furthest from that plane.
+      let a = points[0]
+      let b = points.reduce((prev, curr) => lengthSquared(a, curr) > lengthSquared(a, prev) ? curr : prev, a)
+      let c = points.reduce((prev, curr) => crossLengthSquared(a, b, curr) > crossLengthSquared(a, b, prev) ? curr : prev, a)
+      let d = points.reduce((prev, curr) => Math.abs(VoxelCollection.#orientation(a, b, c, curr)) > Math.abs(VoxelCollection.#orientation(a, b, c, prev)) ? curr : prev, a)
+      let hullVoxels: Voxel[] = []
+      if (lengthSquared(a, b) === 0) {
+         hullVoxels = [[...a]]
+      } else if (crossLengthSquared(a, b, c) === 0) {
+         // Collinear, the ends are the furthest points from the other end.
+         let end = points.reduce((prev, curr) => lengthSquared(b, curr) > lengthSquared(b, prev) ? curr : prev, b)
+         hullVoxels = BaseObject.graph3DParametric(...b, ...end)
+      } else if (VoxelCollection.#orientation(a, b, c, d) === 0) {
+         // Coplanar, use the 2D convex hull in the plane of the axes where the points are largest.
+         let normal = LayerPathExtrude.polygonNormal([a, b, c])
+         let dropIndex = [0, 1, 2].reduce((prev, curr) => Math.abs(normal[curr]) > Math.abs(normal[prev]) ? curr : prev, 0)
+         let projected: Record<string, Voxel> = {}
+         for (let point of points) {
+            projected[point.filter((n, i) => i !== dropIndex).join(",")] = point
+         }
+         let outline = LayerConvexExtrude.convexHull(Object.keys(projected).map(n => n.split(",").map(Number) as Point)).map(n => projected[n.join(",")])
+         hullVoxels = LayerLoftExtrude.rasterizeOutline(outline, false)
+      } else {
+         let faces: [Voxel, Voxel, Voxel][] = [[a, b, c], [a, c, d], [a, d, b], [b, d, c]]
+         if (VoxelCollection.#orientation(a, b, c, d) > 0) {
+            faces = faces.map(n => [n[0], n[2], n[1]])
+         }
+         for (let point of points) {
+            let visible = faces.filter(n => VoxelCollection.#orientation(...n, point) > 0)
+            if (visible.length === 0) {
+               continue
+            }
+            // The horizon is every edge of a visible face whose reversed edge is not on a visible face.
+            let visibleEdges = new Set<string>()
+            for (let face of visible) {
+               for (let i = 0; i < 3; i++) {
+                  visibleEdges.add(face[i].join(",") + "|" + face[(i + 1) % 3].join(","))
+               }
+            }
+            faces = faces.filter(n => !visible.includes(n))
+            for (let face of visible) {
+               for (let i = 0; i < 3; i++) {
+                  if (!visibleEdges.has(face[(i + 1) % 3].join(",") + "|" + face[i].join(","))) {
+                     faces.push([face[i], face[(i + 1) % 3], point])
+                  }
+               }
+            }
+         }
+         // Fill each Z column between the lowest and highest Z allowed by every face plane.
+         let planes = faces.map(([p1, p2, p3]) => {
+            let u = [p2[0] - p1[0], p2[1] - p1[1], p2[2] - p1[2]]
+            let v = [p3[0] - p1[0], p3[1] - p1[1], p3[2] - p1[2]]
+            let normal = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]]
+            return { normal, offset: normal[0] * p1[0] + normal[1] * p1[1] + normal[2] * p1[2] }
+         })
+         let min = [Infinity, Infinity, Infinity]
+         let max = [-Infinity, -Infinity, -Infinity]
+         for (let point of points) {
+            for (let i = 0; i < 3; i++) {
+               min[i] = Math.min(min[i], point[i])
+               max[i] = Math.max(max[i], point[i])
+            }
+         }
+         for (let x = min[0]; x <= max[0]; x++) {
+            for (let y = min[1]; y <= max[1]; y++) {
+               let low = min[2]
+               let high = max[2]
+               for (let plane of planes) {
+                  let remainder = plane.offset - plane.normal[0] * x - plane.normal[1] * y
+                  if (plane.normal[2] > 0) {
+                     high = Math.min(high, Math.floor(remainder / plane.normal[2]))
+                  } else if (plane.normal[2] < 0) {
+                     low = Math.max(low, Math.ceil(remainder / plane.normal[2]))
+                  } else if (remainder < 0) {
+                     high = low - 1
+                  }
+                  if (high < low) {
+                     break
+                  }
+               }
+               for (let z = low; z <= high; z++) {
+                  hullVoxels.push([x, y, z])
+               }
+            }
+         }
+      }
+      let hull = new VoxelCollection({
+         "controller": objects[0].controller,
+         "origin": [0, 0, 0],
+         "fillVoxels": hullVoxels
+      })
+      if (shell) {
+         let directory = new Set(hullVoxels.map(n => n.join(",")))
+         hull.setFillVoxels(hullVoxels.filter(n => BaseObject.getFaceNeighbors(n).some(neighbor => !directory.has(neighbor.join(",")))))
+      }
+      return hull
+   }
+   /**
+    * @param count Amount of copies
+    * @throws {@link RangeError} If the count is not a whole number greater than zero.
+    */
+   static #validateArrayCount(count: number): void {
+      if (!Number.isInteger(count) || count < 1) {
+         throw new RangeError("Invalid array count " + count + ": must be a whole number greater than zero.")
+      }
+   }
+   /**
+    * Either merges the copies into one collection or returns them, as per the return mode.
+    */
+   static #arrayOutput(instances: VoxelCollection[], mode: ArrayReturnModes): VoxelCollection | VoxelCollection[] {
+      if (mode === ArrayReturnModes.RETURN_MODE_INSTANCES) {
+         return instances
+      }
+      else if (mode === ArrayReturnModes.RETURN_MODE_MERGED) {
+         let mergedVoxels: Record<string, Voxel> = {}
+         for (let instance of instances) {
+            for (let voxel of instance.getFillVoxels()) {
+               mergedVoxels[voxel.join(",")] = voxel
+            }
+            instance.delete()
+         }
+         return new VoxelCollection({
+            "controller": instances[0].controller,
+            "origin": [0, 0, 0],
+            "fillVoxels": Object.values(mergedVoxels)
+         })
+      }
+      else {
+         throw new ReferenceError("Invalid array return mode, must be either 'RETURN_MODE_MERGED' or 'RETURN_MODE_INSTANCES'")
+      }
+   }
+   /**
+    * Copies an object along a line, such as fence posts.
+    *
+    * The first copy is at the object's position, and each copy after is moved by the step. Each instance stores the move as its origin.
+    *
+    * @param object Object to copy, its origin and transforms are included.
+    * @param count Amount of copies, at least one.
+    * @param step XYZ offset between two copies
+    * @param mode Return one merged collection or one collection per copy, default of RETURN_MODE_MERGED.
+    * @returns The merged collection, or the copies in order. Both use the controller of the object.
+    * @throws {@link RangeError} If the count is not a whole number greater than zero.
+    */
+   static linearArray(object: BaseObject, count: number, step: Voxel, mode: ArrayReturnModes = ArrayReturnModes.RETURN_MODE_MERGED): VoxelCollection | VoxelCollection[] {
+      return VoxelCollection.gridArray(object, [count], [step], mode)
+   }
+   /**
+    * Copies an object along two or three directions, such as a window grid.
+    *
+    * Every combination of copies along each direction is placed, where copy [i, j, k] is moved by i * steps[0] + j * steps[1] + k * steps[2]. Each instance stores the move as its origin.
+    *
+    * @param object Object to copy, its origin and transforms are included.
+    * @param counts Amount of copies along each direction, each at least one.
+    * @param steps XYZ offset between two copies along each direction, one per count.
+    * @param mode Return one merged collection or one collection per copy, default of RETURN_MODE_MERGED.
+    * @returns The merged collection, or the copies ordered by the last direction first. Both use the controller of the object.
+    * @throws {@link RangeError} If a count is not a whole number greater than zero, or there is not one step per count.
+    */
+   static gridArray(object: BaseObject, counts: number[], steps: Voxel[], mode: ArrayReturnModes = ArrayReturnModes.RETURN_MODE_MERGED): VoxelCollection | VoxelCollection[] {
+      if (counts.length === 0 || counts.length !== steps.length) {
+         throw new RangeError("Invalid grid array: requires one step per count, received " + counts.length + " counts and " + steps.length + " steps.")
+      }
+      counts.forEach(count => VoxelCollection.#validateArrayCount(count))
+      const objectVoxels = object.getFillVoxels()
+      let offsets: Voxel[] = [[0, 0, 0]]
+      for (let i = 0; i < counts.length; i++) {
+         let nextOffsets: Voxel[] = []
+         for (let offset of offsets) {
+            for (let copy = 0; copy < counts[i]; copy++) {
+               nextOffsets.push(offset.map((n, axis) => n + steps[i][axis] * copy) as Voxel)
+            }
+         }
+         offsets = nextOffsets
+      }
+      return VoxelCollection.#arrayOutput(offsets.map(offset => new VoxelCollection({
+         "controller": object.controller,
+         "origin": offset,
+         "fillVoxels": objectVoxels
+      })), mode)
+   }
+   /**
+    * Copies an object around a line, such as a bolt circle.
+    *
+    * Each instance stores its rotation as a {@link RotateTransform}, see {@link BaseObject._transforms}.
+    *
+    * @param object Object to copy, its origin and transforms are included.
+    * @param count Amount of copies, at least one.
+    * @param axis XYZ direction of the line to rotate around, does not need to be normalized.
+    * @param center XYZ point the line passes through
+    * @param sweepAngle Angle in degrees covered by the copies, not zero. Default of 360. A full circle spaces the copies evenly, any other angle places the last copy at the end of the sweep.
+    * @param mode Return one merged collection or one collection per copy, default of RETURN_MODE_MERGED.
+    * @returns The merged collection, or the copies in order. Both use the controller of the object.
+    * @throws {@link RangeError} If the count is not a whole number greater than zero, the sweep angle is zero, the axis is [0, 0, 0], or the axis, center or sweep angle is not a finite number.
+    */
+   static circularArray(object: BaseObject, count: number, axis: Voxel, center: Voxel, sweepAngle: number = 360, mode: ArrayReturnModes = ArrayReturnModes.RETURN_MODE_MERGED): VoxelCollection | VoxelCollection[] {
+      VoxelCollection.#validateArrayCount(count)
+      // Checks the axis and center even when there is only one copy, which is not rotated.
+      BaseObject.transformToMatrix({ "type": TransformTypes.ROTATE, "axis": axis, "angle": sweepAngle, "pivot": center })
+      if (sweepAngle === 0) {
+         throw new RangeError("Invalid sweep angle 0: must not be zero.")
+      }
+      const fullCircle = Math.abs(sweepAngle) % 360 === 0
+      const angleStep = count === 1 ? 0 : sweepAngle / (fullCircle ? count : count - 1)
+      const objectVoxels = object.getFillVoxels()
+      let instances: VoxelCollection[] = []
+      for (let copy = 0; copy < count; copy++) {
+         let instance = new VoxelCollection({
+            "controller": object.controller,
+            "origin": [0, 0, 0],
+            "fillVoxels": objectVoxels
+         })
+         if (copy > 0) {
+            instance.addTransform({ "type": TransformTypes.ROTATE, "axis": [...axis], "angle": angleStep * copy, "pivot": [...center] })
+         }
+         instances.push(instance)
+      }
+      return VoxelCollection.#arrayOutput(instances, mode)
+   }
+}
+
+export interface SymmetricObjectOptions {
+   "controller": UUIDController,
+   "origin": Voxel,
+   /**
+    * The object to reflect, such as one half of a part.
+    */
+   "sourceObject": BaseObject,
+   /**
+    * Index of the axis the mirror plane is perpendicular to, 0 (X), 1 (Y) or 2 (Z).
+    */
+   "axis": number,
+   /**
+    * Position of the mirror plane on the axis, a whole or half number. Does not account for the origin of this object, the same as the voxels of the source.
+    */
+   "planeCoordinate": number
+}
+
+/**
+ * The union of an object and its reflection across an axis aligned plane, for modeling symmetric parts from one half.
+ *
+ * @remarks
+ * Keeps a reference to the source object, so calling {@link SymmetricObject.generateSymmetric} after changing the source, such as the vertices of a {@link Layer}, updates both halves.
+ *
+ * @example
+ * let half = new Layer({ controller, origin: [0, 0, 0], verticesArray: [[0, 0, 0], [4, 0, 0], [0, 6, 0]] }).generateEdges().fillPolygon()
+ * let whole = new SymmetricObject({ controller, origin: [0, 0, 0], sourceObject: half, axis: 0, planeCoordinate: 0 }).generateSymmetric()
+ */
+export class SymmetricObject extends BaseObject {
+   /**
+    * The object that is reflected
+    */
+   sourceObject: BaseObject
+   /**
+    * Index of the axis the mirror plane is perpendicular to
+    */
+   axis: number
+   /**
+    * Position of the mirror plane on the axis
+    */
+   planeCoordinate: number
+   constructor(options: SymmetricObjectOptions) {
+      super({
+         "controller": options.controller,
+         "origin": options.origin
+      })
+      BaseObject.validateMirrorPlane(options.axis, options.planeCoordinate)
+      this.sourceObject = options.sourceObject
+      this.axis = options.axis
+      this.planeCoordinate = options.planeCoordinate
+   }
+   /**
+    * Changes the object to reflect, resets the fillVoxels to the new object's fillVoxels.
+    *
+    * Re-calculautes bounding box.
+    *
+    * @param newObject New object to reflect
+    * @returns Reference to this object for method chaining.
+    */
+   changeSourceObject(newObject: BaseObject): this {
+      this.sourceObject = newObject
+      this._fillVoxels = this.sourceObject.getFillVoxels()
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Changes the mirror plane, resets the fillVoxels to the source object's fillVoxels.
+    *
+    * Re-calculautes bounding box.
+    *
+    * @param axis Index of the axis the plane is perpendicular to, 0 (X), 1 (Y) or 2 (Z).
+    * @param planeCoordinate Position of the plane on the axis, a whole or half number.
+    * @returns Reference to this object for method chaining.
+    * @throws {@link RangeError} If the axis is not 0, 1 or 2, or the plane coordinate is not a whole or half number.
+    */
+   changePlane(axis: number, planeCoordinate: number): this {
+      BaseObject.validateMirrorPlane(axis, planeCoordinate)
+      this.axis = axis
+      this.planeCoordinate = planeCoordinate
+      this._fillVoxels = this.sourceObject.getFillVoxels()
+      this.calculateBoundingBox()
+      return this
+   }
+   /**
+    * Generates the union of the {@link SymmetricObject.sourceObject} and its reflection. Voxels on the plane are only stored once.
+    *
+    * Stores with fillVoxels, re-calculautes bounding box.
+    *
+    * @returns Reference to this object for method chaining.
+    */
+   generateSymmetric(): this {
+      let sourceVoxels = this.sourceObject.getFillVoxels()
+      let symmetricVoxels: Record<string, Voxel> = {}
+      for (let voxel of [...sourceVoxels, ...BaseObject.mirrorVoxels(sourceVoxels, this.axis, this.planeCoordinate)]) {
+         symmetricVoxels[voxel.join(",")] = voxel
+      }
+      this._fillVoxels = Object.values(symmetricVoxels)
+      this.calculateBoundingBox()
+      return this
+   }
+}
+
+export type InterpeterAST = (string | BaseObject | InterpeterAST)[]
+export type InterpeterToken = string | BaseObject
+
+export class CompositeVoxelCollection extends BaseObject {
+   equationInstance: SetOperationsEquation
+   virtualCache: Record<string, BaseObject>
+   tokens: Record<string, string>
+   variableNames: Record<string, BaseObject>
+   constructor(options: CompositeOptions) {
+      super({
+         "controller": options.controller,
+         "origin": options.origin
+      })
+      this.variableNames = options.variableNames
+      this.equationInstance = new SetOperationsEquation("", options.log)
+      this._fillVoxels = []
+      for (let key of Object.keys(this.variableNames)) {
+         BaseObject.push2D(this.variableNames[key].getFillVoxels(), this._fillVoxels)
+      }
+      this.calculateBoundingBox()
+      this.tokens = SetOperationsParser.getSymbols();
+      this.virtualCache = {}
+      this.resetVirtualCache()
+   }
+   /**
+    * @override
+    */
+   delete() {
+      this.controller.removeID(this.uuid);
+      this._fillVoxels = [];
+      this.calculateBoundingBox();
+      this.resetVirtualCache();
+      this.uuid = "";
+   }
+   resetVirtualCache(): CompositeVoxelCollection {
+      let prevHeapKeys = Object.keys(this.virtualCache)
+      for (let i = 0; i < prevHeapKeys.length; i++) {
+         if (prevHeapKeys[i] !== this.tokens.UNIVERSAL_SET || prevHeapKeys[i] !== this.tokens.NULL_SET) {
+            this.virtualCache[prevHeapKeys[i]].delete()
+            delete this.virtualCache[prevHeapKeys[i]]
+         }
+      }
+      let voxels: Voxel[] = []
+      for (let key of Object.keys(this.variableNames)) {
+         BaseObject.push2D(this.variableNames[key].getFillVoxels(), voxels)
+      }
+      this.virtualCache = {
+         [this.tokens.UNIVERSAL_SET]: new VoxelCollection({ controller: this.controller, fillVoxels: voxels, origin: this._origin }),
+         [this.tokens.NULL_SET]: new VoxelCollection({ controller: this.controller, fillVoxels: [], origin: this._origin })
+      }
+      return this
+   }
+   changeNames(variableNames: Record<string, BaseObject>): CompositeVoxelCollection {
+      this.variableNames = Object.assign({}, variableNames)
+      this.resetVirtualCache()
+      return this
+   }
+   setEquation(equation: string): CompositeVoxelCollection {
+      this.equationInstance.changeEquation(equation)
+      this.equationInstance.validateEquation()
+      this.equationInstance.generateAST()
+      return this
+   }
+   #recursiveSolver(layer: InterpeterAST, depth: number): BaseObject {
+      // need to deal with one length equations
+      let token1: InterpeterToken = ""
+      let operation: InterpeterToken = ""
+      let token2: InterpeterToken = ""
+      let str = "";
+      for (let i = 0; i < depth; i++) {
+         str += "-"
+      }
+      for (let i = 0; i < layer.length; i++) {
+         if (Array.isArray(layer[i])) {
+            layer[i] = this.#recursiveSolver(layer[i] as InterpeterAST, depth + 1);
+         }
+      }
+      token1 = layer[0] as InterpeterToken
+      if (layer.length !== 1) {
+         operation = layer[1] as string
+         token2 = layer[2] as InterpeterToken
+      }
+      // Default sets are not avaiable in the users memory address.
+      try {
+         if (typeof token1 === "string" && (token1 === this.tokens.UNIVERSAL_SET || token1 === this.tokens.NULL_SET)) {
+            token1 = this.virtualCache[token1]
+         } else if (typeof token1 === "string") {
+            token1 = this.variableNames[token1]
+         }
+         if (token1 === undefined) {
+            throw new TypeError("Token 1 undefined")
+         }
+      } catch (e) {
+         console.warn("Interpet Error: logging heap and names")
+         console.warn(this.virtualCache)
+         console.warn(this.variableNames)
+         throw new ReferenceError("Unable to find the heap address for token1: " + token1)
+      }
+      // Now that the values have been re-trieved, make sure to terminate if the layer is one in length
+      if (layer.length === 1) {
+         return token1
+      } else if (layer.length === 2) {
+         console.warn("Interpet Error: logging heap and names");
+         console.warn(this.virtualCache);
+         console.warn(this.variableNames);
+         throw new ReferenceError("Invalid sub-equation length two from AST layer: " + token1)
+      }
+      try {
+         if (typeof token2 === "string" && (token2 === this.tokens.UNIVERSAL_SET || token2 === this.tokens.NULL_SET)) {
+            token2 = this.virtualCache[token2]
+         } else if (typeof token2 === "string") {
+            token2 = this.variableNames[token2]
+         }
+         if (token2 === undefined) {
+            throw new TypeError("Token 2 undefined")
+         }
+      } catch (e) {
+         console.warn("Interpet Error: logging heap and names")
+         console.warn(this.virtualCache)
+         console.warn(this.variableNames)
+         throw new ReferenceError("Unable to find the heap address or variableNames address for token2: " + token2)
+      }
+      let memoryQueryOne = token1.uuid + operation + token2.uuid;
+      let memoryQueryTwo = token2.uuid + operation + token1.uuid;
+      // First, check the cache to see if these operations have been done before. 
+
+      let currentHeapKeys: string[] = Object.keys(this.virtualCache)
+
+      if (currentHeapKeys.indexOf(memoryQueryOne) !== -1) {
+         return this.virtualCache[memoryQueryOne]
+         // If the operation is a union, the order does not matter.
+      } else if ((operation === this.tokens.UNION_OP || operation === this.tokens.INTERSECTION_OP) && currentHeapKeys.indexOf(memoryQueryTwo) !== -1) {
+         return this.virtualCache[memoryQueryTwo]
+      }
+
+      /**
+       * Optimization
+       */
+
+      if (token1.uuid === token2.uuid) {
+         if (operation === this.tokens.INTERSECTION_OP || operation === this.tokens.UNION_OP) {
+            this.virtualCache[memoryQueryOne] = new VoxelCollection({
+               controller: this.controller,
+               fillVoxels: token1.getFillVoxels(),
+               origin: token1.getOrigin()
+            });
+         } else if (operation === this.tokens.SUBTRACTION_OP || operation === this.tokens.SYMM_DIFF_OP) {
+            // Do some pointer assignments so 
+            this.virtualCache[memoryQueryOne] = new VoxelCollection({
+               controller: this.controller,
+               fillVoxels: [],
+               origin: [0, 0, 0]
+            });
+         }
+         return this.virtualCache[memoryQueryOne]
+      }
+
+      /**
+       * Intersection Calculautions
+       */
+
+      let token1JointBox: BoundingBox[] = token1.jointBoundingBox.getAllJointBoundingBoxes(JointBoundingBoxActions.RETURN_MODE_FULL_DIRECTORY) as BoundingBox[]
+      let token2JointBox: BoundingBox[] = token2.jointBoundingBox.getAllJointBoundingBoxes(JointBoundingBoxActions.RETURN_MODE_FULL_DIRECTORY) as BoundingBox[]
+
+      let intersectionArr: BoundingBox[] = []
+
+      for (let box1 of token1JointBox) {
+         for (let box2 of token2JointBox) {
+            // need to make these static
+            let intersection = BoundingBox.boundingBoxIntersect(box1.boundingBoxPointData, box2.boundingBoxPointData);
+            if (intersection[0]) {
+               // Add these intersected sub box to the intersection box array.
+               intersectionArr.push(new BoundingBox({
+                  "boundingInputPayload": intersection[1] as CompleteBoundingBoxPointData,
+                  "inputType": BoundingBoxPayloadModes.TYPE_BOUNDING_DIRECTORY
+               }))
+            }
+         }
+      }
+      let intersectionJoint = new JointBoundingBox(intersectionArr);
+      // What voxels from token 1 and 2 are in the overlapping. Only pulls from token 1 to prevent duplicates.
+      let joint: Voxel[] = []
+      // What are not in the joint. These coordinates could never overlap if both were unioned
+      let token1NotInJoint: Voxel[] = []
+      let token2NotInJoint: Voxel[] = []
+      // Grab the voxels for each token
+      let token1Voxels = token1.getFillVoxels();
+      let token2Voxels = token2.getFillVoxels();
+      for (let voxel of token1Voxels) {
+         console.log("\nVoxel 1 in 2 " + JSON.stringify(voxel) + ": " + token2.findPointFromObject(voxel))
+         if (!intersectionJoint.isInside(voxel) || token2.findPointFromObject(voxel)[1] === -1) {
+            token1NotInJoint.push(voxel);
+         }
+         else {
+            joint.push(voxel);
+         }
+      }
+      for (let voxel of token2Voxels) {
+         console.log("\nVoxel 2 in 1 " + JSON.stringify(voxel) + ": " + token1.findPointFromObject(voxel))
+         if (!intersectionJoint.isInside(voxel) || token1.findPointFromObject(voxel)[1] === -1) {
+            token2NotInJoint.push(voxel);
+         }
+      }
+      let newFillVoxels: Voxel[] = []
+      if (operation === this.tokens.INTERSECTION_OP) {
+         if (joint.length === 0) {
+            this.virtualCache[memoryQueryOne] = new VoxelCollection({
+               controller: this.controller,
+               fillVoxels: [],
+               origin: [0, 0, 0]
+            });
+            return this.virtualCache[memoryQueryOne]
+         }
+         else {
+            // Otherwise, the joint is valid and can be used for cache later on.
+            newFillVoxels = joint;
+         }
+      } else if (operation === this.tokens.UNION_OP) {
+         BaseObject.push2D(token1NotInJoint, newFillVoxels);
+         BaseObject.push2D(token2NotInJoint, newFillVoxels);
+         BaseObject.push2D(joint, newFillVoxels);
+      } else if (operation === this.tokens.SUBTRACTION_OP) {
+         BaseObject.push2D(token1NotInJoint, newFillVoxels);
+      } else if (operation === this.tokens.SYMM_DIFF_OP) {
+         BaseObject.push2D(token1NotInJoint, newFillVoxels);
+         BaseObject.push2D(token2NotInJoint, newFillVoxels);
+      } else {
+         throw new ReferenceError("Unknown operation: " + operation);
+      }
+      this.virtualCache[memoryQueryOne] = new VoxelCollection({
+         "controller": this.controller,
+         "origin": [0, 0, 0],
+         "fillVoxels": newFillVoxels
+      })
+      return this.virtualCache[memoryQueryOne]
+   }
+   interpretAST(): CompositeVoxelCollection {
+      this.tokens = SetOperationsParser.getSymbols();
+      this.resetVirtualCache()
+      // This object is only temporary, but since it is the result from the recursive function, 
+      // we can only remove the records after the stack collapse.
+      let solvedASTJoint: BaseObject = this.#recursiveSolver(this.equationInstance.getAST(), 0)
+      this._fillVoxels = solvedASTJoint._fillVoxels
+      // fill voxels has changed, so we need to calculaute bounding boxes again.
+      this.calculateBoundingBox()
+      solvedASTJoint.delete()
+      return this
+   }
+}
+
+export interface VectorVoxelExtrudeOptions {
+   "controller": UUIDController,
+   "origin": Voxel
+   "extrudeVector": Voxel,
+   "extrudeObject": Layer,
+   /**
+    * The size of the end of the extrusion relative to the layer, default of 1. A value of 0 creates a pyramid or cone.
+    */
+   "endScale"?: number,
+   /**
+    * How far the end of the extrusion is rotated around the extrude vector in degrees, default of 0.
+    */
+   "twistAngle"?: number
+}
+/**
+ * Takes in a layer and a XYZ direction vector, and extrudes the layer in that direction.
+ */
+export class LayerVectorExtrude extends BaseObject {
+   /**
+    * The XYZ direction to extrude the voxel
+    */
+   extrudeVector: Voxel
+   /**
+    * The layer to be extruded
+    */
+   extrudeObject: Layer
+   /** 
+    * A Layer created by taking the extrude endpoints of the {@link extrudeObject._verticesArray}
+    * Used to create the shell endpoint.
+   */
+   extrudeEndCap: Layer
+   /**
+    * Defines if the current extruded shape is a shell (hollow) or not (filled)
+    */
+   shell: boolean
+   /**
+    * The size of the end of the extrusion relative to the layer. The size is linearly interpolated along the extrude vector.
+    */
+   endScale: number
+   /**
+    * How far the end of the extrusion is rotated around the extrude vector in degrees. The angle is linearly interpolated along the extrude vector.
+    */
+   twistAngle: number
+   constructor(options: VectorVoxelExtrudeOptions) {
+      super({
+         "controller": options.controller,
+         "origin": options.origin
+      })
+      this.extrudeVector = [...options.extrudeVector]
+      this.extrudeObject = options.extrudeObject
+      this.extrudeEndCap = new Layer({
+         "controller": options.controller,
+         "origin": options.origin,
+         "verticesArray": []
+      })
+      this.shell = false
+      this.endScale = options.endScale ?? 1
+      this.twistAngle = options.twistAngle ?? 0
+      Ellipsoid.validateRadii([this.endScale])
+   }
+   /**
+    * Changes the extrude vector, resets the fillVoxels to extrudeObject's fillVoxels, sets endCap to no vertices, and sets shell to false.
+    * 
+    * Re-calculates bounding box.
+    * 
+    * @param newVector 
+    * @returns Reference to this object for method chaining.
+    */
+   changeExtrudeVector(newVector: Voxel): LayerVectorExtrude {
+      this.extrudeVector = [...newVector]
+      this._fillVoxels = this.extrudeObject.getFillVoxels()
+      this.extrudeEndCap.changeVertices([])
+      this.calculateBoundingBox()
+      this.shell = false
+      return this
+   }
+   /**
+    * Changes the extruding object, resets the fillVoxels to this new object, resets extrudeEndCap to no vertices, sets shell to false,
+    * 
+    * Re-calculautes bounding box.
+    * 
+    * @param newObject New object to be extruded
+    * @returns 
+    */
+   changeExtrudeObject(newObject: Layer): LayerVectorExtrude {
+      this.extrudeObject = newObject
+      this._fillVoxels = this.extrudeObject.getFillVoxels()
+      this.extrudeEndCap.changeVertices([])
+      this.calculateBoundingBox()
+      this.shell = false
+      return this
+   }
+   /**
+    * Changes the taper and twist, resets the fillVoxels to extrudeObject's fillVoxels, sets endCap to no vertices, and sets shell to false.
+    *
+    * Re-calculautes bounding box.
+    *
+    * @param endScale Size of the end relative to the layer, zero or greater.
+    * @param twistAngle Rotation of the end around the extrude vector in degrees.
+    * @returns Reference to this object for method chaining.
+    */
+   changeTaper(endScale: number, twistAngle: number): LayerVectorExtrude {
+      Ellipsoid.validateRadii([endScale])
+      this.endScale = endScale
+      this.twistAngle = twistAngle
+      this._fillVoxels = this.extrudeObject.getFillVoxels()
+      this.extrudeEndCap.changeVertices([])
+      this.calculateBoundingBox()
+      this.shell = false
+      return this
+   }
+   /**
+    * Creates the function that moves a point of the layer to a given fraction of the way along the extrusion.
+    *
+    * The point is rotated around the extrude vector and scaled, both relative to the average of the layer vertices, and then moved along the extrude vector.
+    *
+    * @param fraction How far along the extrusion, from 0 (the layer) to 1 (the end cap).
+    * @returns Function that returns the unrounded XYZ position of a point.
+    */
+   #taperTransform(fraction: number): (point: number[]) => number[] {
+      const vertices = this.extrudeObject.getVerticeVoxels()
+      const anchor = [0, 1, 2].map(i => vertices.reduce((prev, curr) => prev + curr[i], 0) / vertices.length)
+      const scale = 1 + (this.endScale - 1) * fraction
+      const rotation = BaseObject.rotationMatrix(this.extrudeVector, this.twistAngle * fraction * Math.PI / 180)
+      return (point: number[]) => {
+         let rotated = BaseObject.applyMatrix(rotation, [0, 1, 2].map(i => point[i] - anchor[i]))
+         return [0, 1, 2].map(i => anchor[i] + rotated[i] * scale + this.extrudeVector[i] * fraction)
+      }
+   }
+   /**
+    * Generates a tapered and/or twisted extrusion, used by {@link LayerVectorExtrude.extrudeVoxels} when {@link LayerVectorExtrude.endScale} is not 1 or {@link LayerVectorExtrude.twistAngle} is not 0.
+    *
+    * The layer is copied often enough that no layer voxel moves more than half a voxel between copies, counting the scaling and twisting as well as the extrude vector. Each layer voxel is sampled several times within the voxel so that enlarged or rotated copies do not leave gaps.
+    *
+    * @param shell If the extrusion should be hollow or not.
+    */
+   #taperVoxels(shell: boolean): void {
+      const endTransform = this.#taperTransform(1)
+      const toEndCap = (vertices: Voxel[]) => vertices.map(n => endTransform(n).map(v => Math.round(v) + 0) as Voxel)
+      this.extrudeEndCap.changeVertices(toEndCap(this.extrudeObject.getVerticeVoxels()), this.extrudeObject.getHoleVoxels().map(toEndCap)).generateEdges().fillPolygon()
+      const subdivisions = Math.ceil(2 * Math.max(1, this.endScale))
+      const offsets: number[] = []
+      for (let i = 0; i < subdivisions; i++) {
+         offsets.push(-0.5 + (i + 0.5) / subdivisions)
+      }
+      let extrudedVoxels: Record<string, Voxel> = {}
+      let sourceVoxels = shell ? this.extrudeObject.getEdgeVoxels() : this.extrudeObject.getFillVoxels()
+      // Scaling and twisting move the outer voxels further than the extrude vector, so the step count follows the fastest voxel.
+      const samples = 64
+      const sampleTransforms = [...Array(samples + 1).keys()].map(i => this.#taperTransform(i / samples))
+      let maxSpeed = 0
+      for (let voxel of sourceVoxels) {
+         let previous = sampleTransforms[0](voxel)
+         for (let i = 1; i <= samples; i++) {
+            let current = sampleTransforms[i](voxel)
+            for (let j = 0; j < 3; j++) {
+               maxSpeed = Math.max(maxSpeed, Math.abs(current[j] - previous[j]) * samples)
+            }
+            previous = current
+         }
+      }
+      const steps = Math.max(1, Math.ceil(2 * maxSpeed))
+      for (let step = 0; step <= steps; step++) {
+         let transform = this.#taperTransform(step / steps)
+         for (let voxel of sourceVoxels) {
+            for (let x of offsets) {
+               for (let y of offsets) {
+                  for (let z of offsets) {
+                     let moved = transform([voxel[0] + x, voxel[1] + y, voxel[2] + z]).map(n => Math.round(n) + 0) as Voxel
+                     extrudedVoxels[moved.join(",")] = moved
+                  }
+               }
+            }
+         }
+      }
+      if (shell) {
+         for (let voxel of [...this.extrudeEndCap.getFillVoxels(), ...this.extrudeObject.getFillVoxels()]) {
+            extrudedVoxels[voxel.join(",")] = voxel
+         }
+      }
+      this._fillVoxels = Object.values(extrudedVoxels)
+   }
+   /**
+    * Generates the extrusion from the {@link LayerVectorExtrude.extrudeObject} by the XYZ vector {@link LayerVectorExtrude.extrudeVector}.
+    * 
+    * Generates another layer, {@link LayerVectorExtrude.extrudeEndCap}, which is composed of all extruded vertices and holes from te extrudeObject.
+    * 
+    * Stores with fillVoxels, re-calculautes bounding box.
+    * 
+    * @param shell If the extrusion should be hollow or not.
+    * @returns 
+    */
+   extrudeVoxels(shell: boolean): LayerVectorExtrude {
+      this.shell = shell
+      if ((this.extrudeVector[0] + this.extrudeVector[1] + this.extrudeVector[2]) === 0) {
+         this._fillVoxels = this.extrudeObject.getFillVoxels()
+         this.calculateBoundingBox()
+         this.extrudeEndCap.changeVertices(this.extrudeObject.getVerticeVoxels(), this.extrudeObject.getHoleVoxels()).generateEdges().fillPolygon()
+         return this
+      }
+      if (this.endScale !== 1 || this.twistAngle !== 0) {
+         this.#taperVoxels(shell)
+         this.calculateBoundingBox()
+         return this
+      }
+      this._fillVoxels = []
+      let endCapVertices: Voxel[] = []
+      for (let voxel of this.extrudeObject.getVerticeVoxels()) {
+         endCapVertices.push(voxel.map((n, i) => n += this.extrudeVector[i]) as Voxel)
+      }
+      let endCapHoles = this.extrudeObject.getHoleVoxels().map(hole => hole.map(voxel => voxel.map((n, i) => n + this.extrudeVector[i]) as Voxel))
+      this.extrudeEndCap.changeVertices(endCapVertices, endCapHoles).generateEdges().fillPolygon()
+      if (shell) {
+         let edgeDirectoryVoxels = this.extrudeObject.getEdgeVoxels()
+         if (edgeDirectoryVoxels.length === 0) {
+            console.warn("extrudeVoxels error dectected, printing layer:")
+            console.warn(this.extrudeObject)
+            throw new ReferenceError("LayerVectorExtrude layer " + this.extrudeObject.uuid + " has no voxels within the edge directory.")
+         }
+         for (let voxel of edgeDirectoryVoxels) {
+            BaseObject.push2D(BaseObject.graph3DParametric(...voxel, ...(voxel.map((n, i) => n += this.extrudeVector[i]) as Voxel)).slice(1, -1), this._fillVoxels)
+         }
+         BaseObject.push2D(this.extrudeEndCap.getFillVoxels(), this._fillVoxels)
+         BaseObject.push2D(this.extrudeObject.getFillVoxels(), this._fillVoxels)
+      } else {
+         for (let voxel of this.extrudeObject.getFillVoxels()) {
+            BaseObject.push2D(BaseObject.graph3DParametric(...voxel, ...(voxel.map((n, i) => n += this.extrudeVector[i]) as Voxel)), this._fillVoxels)
+         }
+      }
+      this.calculateBoundingBox()
+      return this
+   }
+}
+
+export interface LayerConvexExtrudeOptions {
+   "controller": UUIDController,
+   "origin": Voxel
+   "extrudeObjects": Layer[]
+}
+
+export enum LayerConvexExtrudeEdgeDirectoryOptions {
+   "RETURN_MODE_FULL_DIRECTORY" = "RETURN_MODE_FULL_DIRECTORY",
+   "RETURN_MODE_VOXELS" = "RETURN_MODE_VOXELS"
+}
+
+/**
+ * This extrusion takes in any amount of layers and creates a fluid extrusion between them via Convex Hulls.
+ */
+export class LayerConvexExtrude extends BaseObject {
+   shell: boolean;
+   /**
+    * The layers to extrude between, where order matters.
+    */
+   extrudeObjects: Layer[];
+   /**
+    * The extrusion is divided up into sections, with every two layer object grouped into one section.
+    *
+    * Each of these sections is stored as an indepedent VoxelCollection within the edgeDirectory.
+    *
+    * The voxels of each section overlap, so use {@link LayerConvexExtrude.getEdgeDirectory} to retrieve a duplicate free version.
+    */
+   edgeDirectory: Record<number, VoxelCollection>;
+   /**
+    * The amount of degrees in a single radian, calculated via 180 degrees / Math.PI upon initialization
+    */
+   static #degPerRad: number = (180 / Math.PI)
+   constructor(options: LayerConvexExtrudeOptions) {
+      super({
+         "controller": options.controller,
+         "origin": options.origin
+      });
+      this.extrudeObjects = options.extrudeObjects;
+      this.edgeDirectory = {};
+      this.shell = false;
+   }
+   /**
+    * Sorts the given array of XY points ascending order by their polar angle.
+    * 
+    * Uses Math.atan2(y, x) to calculate the angle from 0 to Math.PI, converts to degrees. 
+    * Converts all negative angles to positive degrees, then returns the subtraction of the angles.
+    * 
+    * Based upon JavaScripts built in sort method
+    * 
+    * Complexity: O(n*log2(n))
+    * 
+    * @param inputPoints Array of XY points
+    * @param center The origin to base the angle from.
+    * @returns Mutates the original input in sorted order.
+    */
+   static polarSort(inputPoints: Point[], center: Point) {
+      return inputPoints.sort((a, b) => {
+         let angle1 = Math.atan2((a[1] - center[1]), (a[0] - center[0])) * LayerConvexExtrude.#degPerRad;
+         angle1 += angle1 < 0 ? 360 : 0
+         let angle2 = Math.atan2((b[1] - center[1]), (b[0] - center[0])) * LayerConvexExtrude.#degPerRad;
+         angle2 += angle2 < 0 ? 360 : 0
+         return angle1 - angle2
+      })
+   }
+   /**
+    * Calculuates the linearity of the three points.
+    * 
+    * If the points trend positive, it is a counter-clockwise.
+    * 
+    * If the points trend zero, the points are collinear
+    * 
+    * If the points treng negative, the points are clockwise.
+    * 
+    * 
+    * P1 --> P2 --> P3
+    * 
+    * @param p1
+    * @param p2
+    * @param p3 
+    * @returns Positive for counter-clockwise, zero for collinear, negative for clockwise.
+    */
+   static pointOrientation(p1: Point, p2: Point, p3: Point) {
+      // returns slope from p1 to p2 minus p2 to p3
+      return (p2[0] - p1[0]) * (p3[1] - p1[1]) - (p2[1] - p1[1]) * (p3[0] - p1[0])
+   }
+   /**
+    * Uses Graham Scan to calculaute the Convex Hull of the given input points.
+    * 
+    * Complexity: O(n*log2(n))
+    * 
+    * @link https://en.wikipedia.org/wiki/Graham_scan
+    * 
+    * @param inputPoints The input points, does not mutate
+    * @returns The convexhull of the points.
+    */
+   static convexHull(inputPoints: Point[]) {
+      let stack = [];
+      // Sort the data set from lowest x value to highest
+      let sortedPoints = BaseObject.push2D(inputPoints, []).sort((a: Point, b: Point) => a[0] - b[0])
+      let center = sortedPoints[0];
+      sortedPoints = [center, ...LayerConvexExtrude.polarSort(sortedPoints.splice(1, sortedPoints.length), center)];
+      for (let i = 0; i < sortedPoints.length; i++) {
+         let point = sortedPoints[i];
+         if (stack.length > 1) {
+            while (stack.length > 1 && LayerConvexExtrude.pointOrientation(stack[1], stack[0], point) <= 0) {
+               stack.shift();
+            }
+         }
+         stack.unshift(point);
+      }
+      return stack;
+   }
+   generateEdges(includeShapeEdges: boolean): LayerConvexExtrude {
+      this.resetEdgeDirectory();
+      // 1 2
+      // 0 1
+      // the coordinates of the line just made
+      let sectionKey = 0;
+      // The current Line
+      let lineVoxelCollection = new VoxelCollection({
+         "controller": this.controller,
+         "origin": [0, 0, 0],
+         "fillVoxels": []
+      });
+      // The computation median between the line and the current section
+      let compositeMedian = new CompositeVoxelCollection({
+         "controller": this.controller,
+         "origin": [0, 0, 0],
+         "variableNames": {},
+         "log": false
+      });
+      // For all extrude objects
+      for (let i = 0; i < this.extrudeObjects.length; i++) {
+         if (i + 1 < this.extrudeObjects.length) {
+            let startObject = this.extrudeObjects[i];
+            let endObject = this.extrudeObjects[i + 1];
+            // Create a new collection for this section of the extrude
+            var sectionVoxelCollection = new VoxelCollection({
+               "controller": this.controller,
+               "origin": [0, 0, 0],
+               "fillVoxels": []
+            });
+            // Change the composite medican varaibles to be the current section and the lines themself. 
+            compositeMedian.changeNames({
+               [sectionVoxelCollection.uuid]: sectionVoxelCollection,
+               [lineVoxelCollection.uuid]: lineVoxelCollection,
+            });
+            let edgeVoxel = new VoxelCollection({
+               "controller": this.controller,
+               "origin": [0, 0, 0],
+               "fillVoxels": endObject.getVerticeVoxels()
+            });
+            compositeMedian.changeNames({
+               [sectionVoxelCollection.uuid]: sectionVoxelCollection,
+               [lineVoxelCollection.uuid]: lineVoxelCollection,
+               [edgeVoxel.uuid]: edgeVoxel
+            }).setEquation(edgeVoxel.uuid + compositeMedian.tokens.SUBTRACTION_OP + sectionVoxelCollection.uuid);
+            sectionVoxelCollection.addFillVoxels(compositeMedian.interpretAST().getFillVoxels());
+            edgeVoxel.setFillVoxels(startObject.getVerticeVoxels())
+            sectionVoxelCollection.addFillVoxels(compositeMedian.interpretAST().getFillVoxels());
+            edgeVoxel.delete();
+            // Set the equation to the this new section + the line varaible. 
+            compositeMedian.setEquation(lineVoxelCollection.uuid + compositeMedian.tokens.SUBTRACTION_OP + sectionVoxelCollection.uuid);
+            // reset it for each new section calculauted 
+            lineVoxelCollection.setFillVoxels([]);
+            // Extrude all vertices from start of section layer to end of section layer
+            let startV = startObject.getVerticeVoxels();
+            let endV = endObject.getVerticeVoxels();
+            for (let SV of startV) {
+               for (let EV of endV) {
+                  // Set the fille voxels of the current lineCollection to the outputted line calculation
+                  lineVoxelCollection.setFillVoxels(BaseObject.graph3DParametric(...SV, ...EV));
+                  // THen, add these new voxels to the section, removing duplicates by subtracting.
+                  sectionVoxelCollection.addFillVoxels(compositeMedian.interpretAST().getFillVoxels());
+               }
+            }
+            /**
+             * Since the process of extruding each vertice to another creates internal points,
+             * A convex hull is applied to each slice of the section. 
+             * This leaves behind only the points on the outside shell of the shape.
+             * 
+             * This is done by looping through each sortedFillVoxelDirectory slice, 
+             * and generating the convexHull for each slice. 
+             * Since the sortedFillVoxelsDirectory should not be mutated all of the resulting convexHulls are placed in a new array.
+             * This new array is the new fillVoxels for this section.
+             */
+            let newFillVoxel: Voxel[] = [];
+            let boundingBoxMetaReference: BoundingBox;
+            for (let key of Object.keys(sectionVoxelCollection.sortedFillVoxelsDirectory)) {
+               // The inital type for convexCoords is Voxel[], but it gets turned into Point[]
+               // As a result, the inital type must be number[][] to support both types.
+               let convexCoords: number[][] = BaseObject.deepCopy(sectionVoxelCollection.sortedFillVoxelsDirectory[Number(key)]);
+               boundingBoxMetaReference = sectionVoxelCollection.boundingBoxMeta as BoundingBox;
+               convexCoords = convexCoords.map((v) => v.filter((coordValue, index) => index != boundingBoxMetaReference.biggestRangeIndex[0]));
+               // convexHull only accepts Point[], so it is casted due to filtering.
+               convexCoords = LayerConvexExtrude.convexHull(convexCoords as Point[]);
+               convexCoords = convexCoords.map((v) => { return v.splice(boundingBoxMetaReference.biggestRangeIndex[0], 0, Number(key)), v; });
+               BaseObject.push2D(convexCoords, newFillVoxel);
+            }
+            /**
+             * The section is now directly updated with these new voxels.
+             * This is done by directly mutating the _fillVoxels, saving O(n) time.
+             */
+            sectionVoxelCollection._fillVoxels = newFillVoxel;
+            sectionVoxelCollection.calculateBoundingBox();
+            // Save a reference to this new section object.
+            this.edgeDirectory[sectionKey] = sectionVoxelCollection;
+            sectionKey++;
+            /**
+             * Since the convexHull operation only saves the minimal amount of points 
+             * required to construct a shell of this shape, the user can clean up the shape edges to make it look better.
+             * This is an experimental feature.
+             */
+            if (includeShapeEdges) {
+               let edgeVoxel = new VoxelCollection({
+                  "controller": this.controller,
+                  "origin": [0, 0, 0],
+                  "fillVoxels": endObject.getEdgeVoxels()
+               });
+               compositeMedian.changeNames({
+                  [sectionVoxelCollection.uuid]: sectionVoxelCollection,
+                  [edgeVoxel.uuid]: edgeVoxel
+               }).setEquation(edgeVoxel.uuid + compositeMedian.tokens.SUBTRACTION_OP + sectionVoxelCollection.uuid);
+               sectionVoxelCollection.addFillVoxels(compositeMedian.interpretAST().getFillVoxels());
+               edgeVoxel.setFillVoxels(startObject.getEdgeVoxels())
+               sectionVoxelCollection.addFillVoxels(compositeMedian.interpretAST().getFillVoxels());
+               // Do some styling by generating edges.
+               let sectionKeys = Object.keys(sectionVoxelCollection.sortedFillVoxelsDirectory)
+               let sortedFillEntry = BaseObject.push2D(sectionVoxelCollection.sortedFillVoxelsDirectory[Number(sectionKeys[0])], [])
+               sortedFillEntry = sortedFillEntry.map((v: number[]) => v.filter((coordValue: number, index: number) => index != boundingBoxMetaReference.biggestRangeIndex[0]))
+               sortedFillEntry = LayerConvexExtrude.convexHull(sortedFillEntry)
+               sortedFillEntry = sortedFillEntry.map((v: number[]) => { return v.splice(boundingBoxMetaReference.biggestRangeIndex[0], 0, Number(sectionKeys[0])), v; });
+               edgeVoxel.delete();
+               let layerMedian = new Layer({
+                  "controller": this.controller,
+                  "origin": [0, 0, 0],
+                  "verticesArray": sortedFillEntry
+               })
+               compositeMedian.changeNames({
+                  [sectionVoxelCollection.uuid]: sectionVoxelCollection,
+                  [layerMedian.uuid]: layerMedian
+               }).setEquation(layerMedian.uuid + compositeMedian.tokens.SUBTRACTION_OP + sectionVoxelCollection.uuid);
+               // Generate the edges and add these back to the section
+               layerMedian.generateEdges();
+               sectionVoxelCollection.addFillVoxels(compositeMedian.interpretAST().getFillVoxels());
+               // Now do the highest key
+               sortedFillEntry = BaseObject.push2D(sectionVoxelCollection.sortedFillVoxelsDirectory[Number(sectionKeys[sectionKeys.length - 1])], [])
+               sortedFillEntry = sortedFillEntry.map((v: number[]) => v.filter((coordValue: number, index: number) => index != boundingBoxMetaReference.biggestRangeIndex[0]))
+               sortedFillEntry = LayerConvexExtrude.convexHull(sortedFillEntry)
+               sortedFillEntry = sortedFillEntry.map((v: number[]) => { return v.splice(boundingBoxMetaReference.biggestRangeIndex[0], 0, Number(sectionKeys[sectionKeys.length - 1])), v; });
+               layerMedian.changeVertices(sortedFillEntry).generateEdges();
+               sectionVoxelCollection.addFillVoxels(compositeMedian.interpretAST().getFillVoxels());
+               // Clear UUIDs
+               layerMedian.delete();
+
+            }
+         }
+      }
+      compositeMedian.delete()
+      lineVoxelCollection.delete();
+      this._fillVoxels = this.getEdgeDirectory(LayerConvexExtrudeEdgeDirectoryOptions.RETURN_MODE_VOXELS) as Voxel[];
+      this.calculateBoundingBox();
+      return this;
+   }
+   getEdgeDirectory(mode: LayerConvexExtrudeEdgeDirectoryOptions): Record<number, Voxel[]> | Voxel[] {
+      if (mode === LayerConvexExtrudeEdgeDirectoryOptions.RETURN_MODE_FULL_DIRECTORY) {
+         let output: Record<number, Voxel[]> = {};
+         for (let key of Object.keys(this.edgeDirectory)) {
+            output[Number(key)] = this.edgeDirectory[Number(key)].getFillVoxels();
+         }
+         return output;
+      }
+      else if (mode === LayerConvexExtrudeEdgeDirectoryOptions.RETURN_MODE_VOXELS) {
+         let fillVoxels: Voxel[] = [];
+         let compositeMedian = new CompositeVoxelCollection({
+            "controller": this.controller,
+            "origin": [0, 0, 0],
+            "variableNames": {},
+            "log": false
+         })
+         let equation = "";
+         let fillVoxelNamesAllSections: Record<string, VoxelCollection> = {};
+         let keys = Object.keys(this.edgeDirectory);
+         for (let i = 0; i < keys.length; i++) {
+            let key = Number(keys[i]);
+            equation += this.edgeDirectory[key].uuid;
+            fillVoxelNamesAllSections[this.edgeDirectory[key].uuid] = this.edgeDirectory[key];
+            if (i + 1 !== keys.length) {
+               equation += compositeMedian.tokens.UNION_OP;
+            }
+         }
+         compositeMedian.changeNames(fillVoxelNamesAllSections);
+         BaseObject.push2D(compositeMedian.setEquation(equation).interpretAST().getFillVoxels(), fillVoxels);
+         compositeMedian.delete();
+         return fillVoxels;
+      }
+      else {
+         throw new ReferenceError("Invalid getEdgeDirectory mode, must be either 'RETURN_MODE_FULL_DIRECTORY' or 'RETURN_MODE_VOXELS'");
+      }
+   }
+   resetEdgeDirectory() {
+      this.shell = false;
+      this._fillVoxels = [];
+      for (let key of Object.keys(this.edgeDirectory)) {
+         this.edgeDirectory[Number(key)].delete();
+         delete this.edgeDirectory[Number(key)];
+      }
+      return this;
    }
 }
 
-export interface CompositeOptions {
-   "controller": UUIDController,
-   "origin": Voxel
-   "log": boolean,
-   "variableNames": Record<string, BaseObject>
-}
-
-export interface CollectionOptions {
+export interface LayerRevolveExtrudeOptions {
    "controller": UUIDController,
    "origin": Voxel
-   "fillVoxels": Voxel[]
+   "extrudeObject": Layer,
+   /**
+    * Any point on the axis of rotation.
+    */
+   "axisPoint": Voxel,
+   /**
+    * The XYZ direction of the axis of rotation, does not need to be normalized.
+    */
+   "axisDirection": Voxel,
+   /**
+    * How far to rotate the layer around the axis in degrees, 360 for a full revolution.
+    */
+   "sweepAngle": number
 }
 
 /**
- * Acts as a median to {@link BaseObject} when the user may simply want to store voxels without them belonging to a particular shape.
- * 
- * Used by {@link CompositeVoxelCollection} to temporarily hold the intersection voxels between shapes 
- * 
- * Alows the user to pass in an array of voxels for storage
+ * Takes in a layer (the profile) and rotates it around an axis, creating a solid of revolution such as a vase, wheel or bottle.
+ *
+ * @remarks
+ * Rotating each voxel of the profile would leave gaps between angular steps on the outside of the shape. Instead, each voxel near the shape is mapped back onto the profile
+ * by its distance from the axis, height along the axis, and angle around the axis, which can never leave gaps.
  */
-export class VoxelCollection extends BaseObject {
-   constructor(options: CollectionOptions) {
+export class LayerRevolveExtrude extends BaseObject {
+   /**
+    * The layer to be revolved
+    */
+   extrudeObject: Layer
+   /**
+    * Any point on the axis of rotation.
+    */
+   axisPoint: Voxel
+   /**
+    * The XYZ direction of the axis of rotation.
+    */
+   axisDirection: Voxel
+   /**
+    * How far to rotate the layer around the axis in degrees.
+    */
+   sweepAngle: number
+   /**
+    * Defines if the current extruded shape is a shell (hollow) or not (filled)
+    */
+   shell: boolean
+   constructor(options: LayerRevolveExtrudeOptions) {
       super({
          "controller": options.controller,
          "origin": options.origin
       })
-      this._fillVoxels = []
-      BaseObject.push2D(options.fillVoxels, this._fillVoxels)
-      this.calculateBoundingBox()
+      Torus.validateNormal(options.axisDirection)
+      this.extrudeObject = options.extrudeObject
+      this.axisPoint = [...options.axisPoint]
+      this.axisDirection = [...options.axisDirection]
+      this.sweepAngle = options.sweepAngle
+      this.shell = false
    }
-   setFillVoxels(newVoxels: Voxel[]): this {
-      this._fillVoxels = []
-      BaseObject.push2D(newVoxels, this._fillVoxels)
+   /**
+    * Changes the extruding object, resets the fillVoxels to this new object, sets shell to false.
+    *
+    * Re-calculautes bounding box.
+    *
+    * @param newObject New object to be revolved
+    * @returns Reference to this object for method chaining.
+    */
+   changeExtrudeObject(newObject: Layer): LayerRevolveExtrude {
+      this.extrudeObject = newObject
+      this._fillVoxels = this.extrudeObject.getFillVoxels()
       this.calculateBoundingBox()
+      this.shell = false
       return this
    }
-   addFillVoxels(newVoxels: Voxel[]): this {
-      BaseObject.push2D(newVoxels, this._fillVoxels)
+   /**
+    * Changes the axis of rotation, resets the fillVoxels to the extrudeObject's fillVoxels, sets shell to false.
+    *
+    * Re-calculautes bounding box.
+    *
+    * @param axisPoint Any point on the new axis
+    * @param axisDirection The XYZ direction of the new axis
+    * @returns Reference to this object for method chaining.
+    */
+   changeAxis(axisPoint: Voxel, axisDirection: Voxel): LayerRevolveExtrude {
+      Torus.validateNormal(axisDirection)
+      this.axisPoint = [...axisPoint]
+      this.axisDirection = [...axisDirection]
+      this._fillVoxels = this.extrudeObject.getFillVoxels()
       this.calculateBoundingBox()
+      this.shell = false
       return this
    }
-   // create shell around points
-}
-
-export type InterpeterAST = (string | BaseObject | InterpeterAST)[]
-export type InterpeterToken = string | BaseObject
-
-export class CompositeVoxelCollection extends BaseObject {
-   equationInstance: SetOperationsEquation
-   virtualCache: Record<string, BaseObject>
-   tokens: Record<string, string>
-   variableNames: Record<string, BaseObject>
-   constructor(options: CompositeOptions) {
-      super({
-         "controller": options.controller,
-         "origin": options.origin
-      })
-      this.variableNames = options.variableNames
-      this.equationInstance = new SetOperationsEquation("", options.log)
-      this._fillVoxels = []
-      for (let key of Object.keys(this.variableNames)) {
-         BaseObject.push2D(this.variableNames[key].getFillVoxels(), this._fillVoxels)
-      }
-      this.calculateBoundingBox()
-      this.tokens = SetOperationsParser.getSymbols();
-      this.virtualCache = {}
-      this.resetVirtualCache()
-   }
    /**
-    * @override
+    * Changes the sweep angle, resets the fillVoxels to the extrudeObject's fillVoxels, sets shell to false.
+    *
+    * Re-calculautes bounding box.
+    *
+    * @param sweepAngle New angle in degrees
+    * @returns Reference to this object for method chaining.
     */
-   delete() {
-      this.controller.removeID(this.uuid);
-      this._fillVoxels = [];
-      this.calculateBoundingBox();
-      this.resetVirtualCache();
-      this.uuid = "";
-   }
-   resetVirtualCache(): CompositeVoxelCollection {
-      let prevHeapKeys = Object.keys(this.virtualCache)
-      for (let i = 0; i < prevHeapKeys.length; i++) {
-         if (prevHeapKeys[i] !== this.tokens.UNIVERSAL_SET || prevHeapKeys[i] !== this.tokens.NULL_SET) {
-            this.virtualCache[prevHeapKeys[i]].delete()
-            delete this.virtualCache[prevHeapKeys[i]]
-         }
-      }
-      let voxels: Voxel[] = []
-      for (let key of Object.keys(this.variableNames)) {
-         BaseObject.push2D(this.variableNames[key].getFillVoxels(), voxels)
-      }
-      this.virtualCache = {
-         [this.tokens.UNIVERSAL_SET]: new VoxelCollection({ controller: this.controller, fillVoxels: voxels, origin: this._origin }),
-         [this.tokens.NULL_SET]: new VoxelCollection({ controller: this.controller, fillVoxels: [], origin: this._origin })
-      }
-      return this
-   }
-   changeNames(variableNames: Record<string, BaseObject>): CompositeVoxelCollection {
-      this.variableNames = Object.assign({}, variableNames)
-      this.resetVirtualCache()
-      return this
-   }
-   setEquation(equation: string): CompositeVoxelCollection {
-      this.equationInstance.changeEquation(equation)
-      this.equationInstance.validateEquation()
-      this.equationInstance.generateAST()
+   changeSweepAngle(sweepAngle: number): LayerRevolveExtrude {
+      this.sweepAngle = sweepAngle
+      this._fillVoxels = this.extrudeObject.getFillVoxels()
+      this.calculateBoundingBox()
+      this.shell = false
       return this
    }
-   #recursiveSolver(layer: InterpeterAST, depth: number): BaseObject {
-      // need to deal with one length equations
-      let token1: InterpeterToken = ""
-      let operation: InterpeterToken = ""
-      let token2: InterpeterToken = ""
-      let str = "";
-      for (let i = 0; i < depth; i++) {
-         str += "-"
-      }
-      for (let i = 0; i < layer.length; i++) {
-         if (Array.isArray(layer[i])) {
-            layer[i] = this.#recursiveSolver(layer[i] as InterpeterAST, depth + 1);
-         }
-      }
-      token1 = layer[0] as InterpeterToken
-      if (layer.length !== 1) {
-         operation = layer[1] as string
-         token2 = layer[2] as InterpeterToken
-      }
-      // Default sets are not avaiable in the users memory address.
-      try {
-         if (typeof token1 === "string" && (token1 === this.tokens.UNIVERSAL_SET || token1 === this.tokens.NULL_SET)) {
-            token1 = this.virtualCache[token1]
-         } else if (typeof token1 === "string") {
-            token1 = this.variableNames[token1]
-         }
-         if (token1 === undefined) {
-            throw new TypeError("Token 1 undefined")
-         }
-      } catch (e) {
-         console.warn("Interpet Error: logging heap and names")
-         console.warn(this.virtualCache)
-         console.warn(this.variableNames)
-         throw new ReferenceError("Unable to find the heap address for token1: " + token1)
-      }
-      // Now that the values have been re-trieved, make sure to terminate if the layer is one in length
-      if (layer.length === 1) {
-         return token1
-      } else if (layer.length === 2) {
-         console.warn("Interpet Error: logging heap and names");
-         console.warn(this.virtualCache);
-         console.warn(this.variableNames);
-         throw new ReferenceError("Invalid sub-equation length two from AST layer: " + token1)
-      }
-      try {
-         if (typeof token2 === "string" && (token2 === this.tokens.UNIVERSAL_SET || token2 === this.tokens.NULL_SET)) {
-            token2 = this.virtualCache[token2]
-         } else if (typeof token2 === "string") {
-            token2 = this.variableNames[token2]
-         }
-         if (token2 === undefined) {
-            throw new TypeError("Token 2 undefined")
-         }
-      } catch (e) {
-         console.warn("Interpet Error: logging heap and names")
-         console.warn(this.virtualCache)
-         console.warn(this.variableNames)
-         throw new ReferenceError("Unable to find the heap address or variableNames address for token2: " + token2)
-      }
-      let memoryQueryOne = token1.uuid + operation + token2.uuid;
-      let memoryQueryTwo = token2.uuid + operation + token1.uuid;
-      // First, check the cache to see if these operations have been done before. 
-
-      let currentHeapKeys: string[] = Object.keys(this.virtualCache)
-
-      if (currentHeapKeys.indexOf(memoryQueryOne) !== -1) {
-         return this.virtualCache[memoryQueryOne]
-         // If the operation is a union, the order does not matter.
-      } else if ((operation === this.tokens.UNION_OP || operation === this.tokens.INTERSECTION_OP) && currentHeapKeys.indexOf(memoryQueryTwo) !== -1) {
-         return this.virtualCache[memoryQueryTwo]
-      }
-
-      /**
-       * Optimization
-       */
-
-      if (token1.uuid === token2.uuid) {
-         if (operation === this.tokens.INTERSECTION_OP || operation === this.tokens.UNION_OP) {
-            this.virtualCache[memoryQueryOne] = new VoxelCollection({
-               controller: this.controller,
-               fillVoxels: token1.getFillVoxels(),
-               origin: token1.getOrigin()
-            });
-         } else if (operation === this.tokens.SUBTRACTION_OP || operation === this.tokens.SYMM_DIFF_OP) {
-            // Do some pointer assignments so 
-            this.virtualCache[memoryQueryOne] = new VoxelCollection({
-               controller: this.controller,
-               fillVoxels: [],
-               origin: [0, 0, 0]
-            });
-         }
-         return this.virtualCache[memoryQueryOne]
-      }
-
-      /**
-       * Intersection Calculautions
-       */
-
-      let token1JointBox: BoundingBox[] = token1.jointBoundingBox.getAllJointBoundingBoxes(JointBoundingBoxActions.RETURN_MODE_FULL_DIRECTORY) as BoundingBox[]
-      let token2JointBox: BoundingBox[] = token2.jointBoundingBox.getAllJointBoundingBoxes(JointBoundingBoxActions.RETURN_MODE_FULL_DIRECTORY) as BoundingBox[]
-
-      let intersectionArr: BoundingBox[] = []
-
-      for (let box1 of token1JointBox) {
-         for (let box2 of token2JointBox) {
-            // need to make these static
-            let intersection = BoundingBox.boundingBoxIntersect(box1.boundingBoxPointData, box2.boundingBoxPointData);
-            if (intersection[0]) {
-               // Add these intersected sub box to the intersection box array.
-               intersectionArr.push(new BoundingBox({
-                  "boundingInputPayload": intersection[1] as CompleteBoundingBoxPointData,
-                  "inputType": BoundingBoxPayloadModes.TYPE_BOUNDING_DIRECTORY
-               }))
-            }
-         }
+   /**
+    * Generates the solid of revolution from the {@link LayerRevolveExtrude.extrudeObject} fill voxels.
+    *
+    * The angle of a voxel is measured around the axis from the profile voxel furthest from the axis, so a sweep of less than 360 degrees starts at the profile.
+    *
+    * Stores with fillVoxels, re-calculautes bounding box.
+    *
+    * @param shell If the extrusion should be hollow or not. The shell includes the flat ends of a partial sweep.
+    * @returns Reference to this object for method chaining.
+    */
+   extrudeVoxels(shell: boolean): LayerRevolveExtrude {
+      this.shell = shell
+      const axisLength = Math.sqrt(this.axisDirection[0] ** 2 + this.axisDirection[1] ** 2 + this.axisDirection[2] ** 2)
+      const axis = this.axisDirection.map(n => n / axisLength)
+      const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+      // Splits a voxel into its height along the axis, and the perpendicular vector from the axis.
+      const toAxisSpace = (voxel: Voxel) => {
+         let relative = [0, 1, 2].map(i => voxel[i] - this.axisPoint[i])
+         let height = dot(relative, axis)
+         let perpendicular = [0, 1, 2].map(i => relative[i] - height * axis[i])
+         return { height, perpendicular, radius: Math.sqrt(dot(perpendicular, perpendicular)) }
       }
-      let intersectionJoint = new JointBoundingBox(intersectionArr);
-      // What voxels from token 1 and 2 are in the overlapping. Only pulls from token 1 to prevent duplicates.
-      let joint: Voxel[] = []
-      // What are not in the joint. These coordinates could never overlap if both were unioned
-      let token1NotInJoint: Voxel[] = []
-      let token2NotInJoint: Voxel[] = []
-      // Grab the voxels for each token
-      let token1Voxels = token1.getFillVoxels();
-      let token2Voxels = token2.getFillVoxels();
-      for (let voxel of token1Voxels) {
-         console.log("\nVoxel 1 in 2 " + JSON.stringify(voxel) + ": " + token2.findPointFromObject(voxel))
-         if (!intersectionJoint.isInside(voxel) || token2.findPointFromObject(voxel)[1] === -1) {
-            token1NotInJoint.push(voxel);
-         }
-         else {
-            joint.push(voxel);
+      let profile: Record<string, boolean> = {}
+      let maxRadius = 0
+      let minHeight = Infinity
+      let maxHeight = -Infinity
+      let reference = [0, 0, 0]
+      for (let voxel of this.extrudeObject.getFillVoxels()) {
+         let { height, perpendicular, radius } = toAxisSpace(voxel)
+         profile[Math.round(radius) + "," + Math.round(height)] = true
+         minHeight = Math.min(minHeight, height)
+         maxHeight = Math.max(maxHeight, height)
+         if (radius > maxRadius) {
+            maxRadius = radius
+            reference = perpendicular.map(n => n / radius)
          }
       }
-      for (let voxel of token2Voxels) {
-         console.log("\nVoxel 2 in 1 " + JSON.stringify(voxel) + ": " + token1.findPointFromObject(voxel))
-         if (!intersectionJoint.isInside(voxel) || token1.findPointFromObject(voxel)[1] === -1) {
-            token2NotInJoint.push(voxel);
-         }
+      this._fillVoxels = []
+      if (minHeight > maxHeight) {
+         this.calculateBoundingBox()
+         return this
       }
-      let newFillVoxels: Voxel[] = []
-      if (operation === this.tokens.INTERSECTION_OP) {
-         if (joint.length === 0) {
-            this.virtualCache[memoryQueryOne] = new VoxelCollection({
-               controller: this.controller,
-               fillVoxels: [],
-               origin: [0, 0, 0]
-            });
-            return this.virtualCache[memoryQueryOne]
+      // Second reference direction, axis cross reference
+      const referenceNormal = [
+         axis[1] * reference[2] - axis[2] * reference[1],
+         axis[2] * reference[0] - axis[0] * reference[2],
+         axis[0] * reference[1] - axis[1] * reference[0]
+      ]
+      const sweep = Math.min(Math.abs(this.sweepAngle), 360)
+      const isInside = (voxel: Voxel): boolean => {
+         let { height, perpendicular, radius } = toAxisSpace(voxel)
+         if (!profile[Math.round(radius) + "," + Math.round(height)]) {
+            return false
          }
-         else {
-            // Otherwise, the joint is valid and can be used for cache later on.
-            newFillVoxels = joint;
+         if (sweep >= 360 || Math.round(radius) === 0) {
+            return true
+         }
+         let angle = Math.atan2(dot(perpendicular, referenceNormal), dot(perpendicular, reference)) * 180 / Math.PI
+         angle = this.sweepAngle < 0 ? -angle : angle
+         angle += angle < 0 ? 360 : 0
+         return angle <= sweep || angle >= 360 - 1e-9
+      }
+      let ends = [minHeight, maxHeight].map(h => this.axisPoint.map((n, i) => n + h * axis[i]))
+      let low = [0, 1, 2].map(i => Math.floor(Math.min(ends[0][i], ends[1][i]) - maxRadius) - 1)
+      let high = [0, 1, 2].map(i => Math.ceil(Math.max(ends[0][i], ends[1][i]) + maxRadius) + 1)
+      for (let x = low[0]; x <= high[0]; x++) {
+         for (let y = low[1]; y <= high[1]; y++) {
+            for (let z = low[2]; z <= high[2]; z++) {
+               let voxel: Voxel = [x, y, z]
+               if (!isInside(voxel)) {
+                  continue;
+               }
+               if (shell && BaseObject.getFaceNeighbors(voxel).every(isInside)) {
+                  continue;
+               }
+               this._fillVoxels.push(voxel)
+            }
          }
-      } else if (operation === this.tokens.UNION_OP) {
-         BaseObject.push2D(token1NotInJoint, newFillVoxels);
-         BaseObject.push2D(token2NotInJoint, newFillVoxels);
-         BaseObject.push2D(joint, newFillVoxels);
-      } else if (operation === this.tokens.SUBTRACTION_OP) {
-         BaseObject.push2D(token1NotInJoint, newFillVoxels);
-      } else if (operation === this.tokens.SYMM_DIFF_OP) {
-         BaseObject.push2D(token1NotInJoint, newFillVoxels);
-         BaseObject.push2D(token2NotInJoint, newFillVoxels);
-      } else {
-         throw new ReferenceError("Unknown operation: " + operation);
       }
-      this.virtualCache[memoryQueryOne] = new VoxelCollection({
-         "controller": this.controller,
-         "origin": [0, 0, 0],
-         "fillVoxels": newFillVoxels
-      })
-      return this.virtualCache[memoryQueryOne]
-   }
-   interpretAST(): CompositeVoxelCollection {
-      this.tokens = SetOperationsParser.getSymbols();
-      this.resetVirtualCache()
-      // This object is only temporary, but since it is the result from the recursive function, 
-      // we can only remove the records after the stack collapse.
-      let solvedASTJoint: BaseObject = this.#recursiveSolver(this.equationInstance.getAST(), 0)
-      this._fillVoxels = solvedASTJoint._fillVoxels
-      // fill voxels has changed, so we need to calculaute bounding boxes again.
       this.calculateBoundingBox()
-      solvedASTJoint.delete()
       return this
    }
 }
 
-export interface VectorVoxelExtrudeOptions {
+export interface LayerPathExtrudeOptions {
    "controller": UUIDController,
    "origin": Voxel
-   "extrudeVector": Voxel,
-   "extrudeObject": Layer
+   "extrudeObject": Layer,
+   /**
+    * The path to sweep along, either the vertices of a polyline or a list of lines that are joined end to start.
+    */
+   "path": Voxel[] | Line[]
 }
+
 /**
- * Takes in a layer and a XYZ direction vector, and extrudes the layer in that direction.
+ * Takes in a layer (the cross-section) and sweeps it along a path of lines, keeping the layer perpendicular to the path at every step.
+ *
+ * @remarks
+ * The layer is anchored at the average of its vertices, which follows the path. The orientation is carried from one segment to the next by the smallest rotation between them,
+ * so the cross-section does not twist around the path. At each bend the cross-section is also rotated in small steps from one segment to the next to close the outside of the corner.
  */
-export class LayerVectorExtrude extends BaseObject {
+export class LayerPathExtrude extends BaseObject {
    /**
-    * The XYZ direction to extrude the voxel
+    * The layer to be swept
     */
-   extrudeVector: Voxel
+   extrudeObject: Layer
    /**
-    * The layer to be extruded
+    * The vertices of the path. Lines are stored as their vertices.
     */
-   extrudeObject: Layer
-   /** 
-    * A Layer created by taking the extrude endpoints of the {@link extrudeObject._verticesArray}
-    * Used to create the shell endpoint.
-   */
-   extrudeEndCap: Layer
+   path: Voxel[]
    /**
     * Defines if the current extruded shape is a shell (hollow) or not (filled)
     */
    shell: boolean
-   constructor(options: VectorVoxelExtrudeOptions) {
+   constructor(options: LayerPathExtrudeOptions) {
       super({
          "controller": options.controller,
          "origin": options.origin
       })
-      this.extrudeVector = [...options.extrudeVector]
       this.extrudeObject = options.extrudeObject
-      this.extrudeEndCap = new Layer({
-         "controller": options.controller,
-         "origin": options.origin,
-         "verticesArray": []
-      })
+      this.path = LayerPathExtrude.pathToVertices(options.path)
       this.shell = false
    }
    /**
-    * Changes the extrude vector, resets the fillVoxels to extrudeObject's fillVoxels, sets endCap to no vertices, and sets shell to false.
-    * 
-    * Re-calculates bounding box.
-    * 
-    * @param newVector 
+    * @param path Vertices or lines
+    * @returns The vertices of the path, where consecutive duplicates (the end of one line and start of the next) are removed.
+    */
+   static pathToVertices(path: Voxel[] | Line[]): Voxel[] {
+      let vertices: Voxel[] = []
+      for (let entry of path) {
+         for (let vertice of entry instanceof Line ? entry.getVerticeVoxels() : [entry]) {
+            if (vertices.length === 0 || !BaseObject.compare2d(vertices[vertices.length - 1], vertice)) {
+               vertices.push([...vertice])
+            }
+         }
+      }
+      return vertices
+   }
+   /**
+    * Calculates the normal of a polygon via Newell's method, which works for concave polygons.
+    * @param vertices Polygon vertices in order
+    * @returns Unit length normal
+    * @throws {@link RangeError} If the vertices are collinear or there are less than three.
+    */
+   static polygonNormal(vertices: Voxel[]): Voxel {
+      let normal = [0, 0, 0]
+      for (let i = 0; i < vertices.length; i++) {
+         let current = vertices[i]
+         let next = vertices[(i + 1) % vertices.length]
+         normal[0] += (current[1] - next[1]) * (current[2] + next[2])
+         normal[1] += (current[2] - next[2]) * (current[0] + next[0])
+         normal[2] += (current[0] - next[0]) * (current[1] + next[1])
+      }
+      let length = Math.sqrt(normal[0] ** 2 + normal[1] ** 2 + normal[2] ** 2)
+      if (length === 0) {
+         throw new RangeError("Unable to find the normal of vertices " + JSON.stringify(vertices) + ": requires at least three vertices that are not collinear.")
+      }
+      return normal.map(n => n / length) as Voxel
+   }
+   /**
+    * @param from Unit vector
+    * @param to Unit vector
+    * @returns The rotation matrix with the smallest angle that turns from into to.
+    */
+   static rotationBetween(from: number[], to: number[]): number[][] {
+      let cross = [from[1] * to[2] - from[2] * to[1], from[2] * to[0] - from[0] * to[2], from[0] * to[1] - from[1] * to[0]]
+      let crossLength = Math.sqrt(cross[0] ** 2 + cross[1] ** 2 + cross[2] ** 2)
+      let angle = Math.atan2(crossLength, from[0] * to[0] + from[1] * to[1] + from[2] * to[2])
+      if (crossLength < 1e-9) {
+         if (angle < Math.PI / 2) {
+            return [[1, 0, 0], [0, 1, 0], [0, 0, 1]]
+         }
+         // Opposite directions, any perpendicular axis works
+         cross = Math.abs(from[0]) < 0.9 ? [0, -from[2], from[1]] : [-from[2], 0, from[0]]
+      }
+      return BaseObject.rotationMatrix(cross, angle)
+   }
+   /**
+    * Changes the extruding object, resets the fillVoxels to this new object, sets shell to false.
+    *
+    * Re-calculautes bounding box.
+    *
+    * @param newObject New object to be swept
     * @returns Reference to this object for method chaining.
     */
-   changeExtrudeVector(newVector: Voxel): LayerVectorExtrude {
-      this.extrudeVector = [...newVector]
+   changeExtrudeObject(newObject: Layer): LayerPathExtrude {
+      this.extrudeObject = newObject
       this._fillVoxels = this.extrudeObject.getFillVoxels()
-      this.extrudeEndCap.changeVertices([])
       this.calculateBoundingBox()
       this.shell = false
       return this
    }
    /**
-    * Changes the extruding object, resets the fillVoxels to this new object, resets extrudeEndCap to no vertices, sets shell to false,
-    * 
+    * Changes the path, resets the fillVoxels to the extrudeObject's fillVoxels, sets shell to false.
+    *
     * Re-calculautes bounding box.
-    * 
-    * @param newObject New object to be extruded
-    * @returns 
+    *
+    * @param path Vertices or lines
+    * @returns Reference to this object for method chaining.
     */
-   changeExtrudeObject(newObject: Layer): LayerVectorExtrude {
-      this.extrudeObject = newObject
+   changePath(path: Voxel[] | Line[]): LayerPathExtrude {
+      this.path = LayerPathExtrude.pathToVertices(path)
       this._fillVoxels = this.extrudeObject.getFillVoxels()
-      this.extrudeEndCap.changeVertices([])
       this.calculateBoundingBox()
       this.shell = false
       return this
    }
    /**
-    * Generates the extrusion from the {@link LayerVectorExtrude.extrudeObject} by the XYZ vector {@link LayerVectorExtrude.extrudeVector}.
-    * 
-    * Generates another layer, {@link LayerVectorExtrude.extrudeEndCap}, which is composed of all extruded vertices from te extrudeObject.
-    * 
+    * Generates the sweep of the {@link LayerPathExtrude.extrudeObject} along the {@link LayerPathExtrude.path}.
+    *
+    * Both the path and the cross-section are sampled every half voxel before rounding, so tilted cross-sections do not leave gaps.
+    *
     * Stores with fillVoxels, re-calculautes bounding box.
-    * 
-    * @param shell If the extrusion should be hollow or not.
-    * @returns 
+    *
+    * @param shell If the extrusion should be hollow or not. When hollow, the edge voxels of the layer are swept and the filled layer is placed at both ends.
+    * @returns Reference to this object for method chaining.
+    * @throws {@link RangeError} If the path has less than two distinct vertices.
     */
-   extrudeVoxels(shell: boolean): LayerVectorExtrude {
+   extrudeVoxels(shell: boolean): LayerPathExtrude {
       this.shell = shell
-      if ((this.extrudeVector[0] + this.extrudeVector[1] + this.extrudeVector[2]) === 0) {
-         this._fillVoxels = this.extrudeObject.getFillVoxels()
-         this.calculateBoundingBox()
-         this.extrudeEndCap.changeVertices(this.extrudeObject.getVerticeVoxels()).generateEdges().fillPolygon()
-         return this
+      if (this.path.length < 2) {
+         throw new RangeError("LayerPathExtrude " + this.uuid + " requires a path with at least two distinct vertices.")
       }
-      this._fillVoxels = []
-      let endCapVertices: Voxel[] = []
-      for (let voxel of this.extrudeObject.getVerticeVoxels()) {
-         endCapVertices.push(voxel.map((n, i) => n += this.extrudeVector[i]) as Voxel)
+      const vertices = this.extrudeObject.getVerticeVoxels()
+      const profileNormal = LayerPathExtrude.polygonNormal(vertices)
+      const anchor = [0, 1, 2].map(i => vertices.reduce((prev, curr) => prev + curr[i], 0) / vertices.length)
+      // Two directions within the plane of the layer, used to sample each voxel every half voxel.
+      const planeRotation = LayerPathExtrude.rotationBetween([0, 0, 1], profileNormal)
+      const planeU = planeRotation.map(row => row[0])
+      const planeV = planeRotation.map(row => row[1])
+      const toProfileSamples = (voxels: Voxel[]): number[][] => {
+         let samples: number[][] = []
+         for (let voxel of voxels) {
+            for (let u of [-0.25, 0, 0.25]) {
+               for (let v of [-0.25, 0, 0.25]) {
+                  samples.push([0, 1, 2].map(i => voxel[i] - anchor[i] + u * planeU[i] + v * planeV[i]))
+               }
+            }
+         }
+         return samples
       }
-      this.extrudeEndCap.changeVertices(endCapVertices).generateEdges().fillPolygon()
-      if (shell) {
-         let edgeDirectoryVoxels = this.extrudeObject.getEdgeVoxels()
-         if (edgeDirectoryVoxels.length === 0) {
-            console.warn("extrudeVoxels error dectected, printing layer:")
-            console.warn(this.extrudeObject)
-            throw new ReferenceError("LayerVectorExtrude layer " + this.extrudeObject.uuid + " has no voxels within the edge directory.")
+      const wallSamples = toProfileSamples(shell ? this.extrudeObject.getEdgeVoxels() : this.extrudeObject.getFillVoxels())
+      const capSamples = toProfileSamples(this.extrudeObject.getFillVoxels())
+      let profileRadius = 0
+      for (let sample of wallSamples) {
+         profileRadius = Math.max(profileRadius, Math.sqrt(sample[0] ** 2 + sample[1] ** 2 + sample[2] ** 2))
+      }
+      let sweptVoxels: Record<string, Voxel> = {}
+      const stamp = (samples: number[][], rotation: number[][], position: number[]) => {
+         for (let sample of samples) {
+            let rotated = BaseObject.applyMatrix(rotation, sample)
+            let voxel = [0, 1, 2].map(i => Math.round(position[i] + rotated[i]) + 0) as Voxel
+            sweptVoxels[voxel.join(",")] = voxel
          }
-         for (let voxel of edgeDirectoryVoxels) {
-            BaseObject.push2D(BaseObject.graph3DParametric(...voxel, ...(voxel.map((n, i) => n += this.extrudeVector[i]) as Voxel)).slice(1, -1), this._fillVoxels)
+      }
+      let previousDirection: number[] = profileNormal
+      let rotation: number[][] = [[1, 0, 0], [0, 1, 0], [0, 0, 1]]
+      for (let i = 0; i + 1 < this.path.length; i++) {
+         let start = this.path[i]
+         let delta = [0, 1, 2].map(k => this.path[i + 1][k] - start[k])
+         let length = Math.sqrt(delta[0] ** 2 + delta[1] ** 2 + delta[2] ** 2)
+         let direction = delta.map(n => n / length)
+         let turn = LayerPathExtrude.rotationBetween(previousDirection, direction)
+         if (i > 0) {
+            // Close the outside of the bend by turning the cross-section in steps of at most half a voxel at its edge.
+            let cross = [previousDirection[1] * direction[2] - previousDirection[2] * direction[1], previousDirection[2] * direction[0] - previousDirection[0] * direction[2], previousDirection[0] * direction[1] - previousDirection[1] * direction[0]]
+            let angle = Math.acos(Math.min(1, Math.max(-1, previousDirection[0] * direction[0] + previousDirection[1] * direction[1] + previousDirection[2] * direction[2])))
+            let steps = Math.ceil(angle * profileRadius * 2)
+            for (let step = 1; step < steps && cross.some(n => n !== 0); step++) {
+               stamp(wallSamples, BaseObject.multiplyMatrices(BaseObject.rotationMatrix(cross, angle * step / steps), rotation), start)
+            }
          }
-         BaseObject.push2D(this.extrudeEndCap.getFillVoxels(), this._fillVoxels)
-         BaseObject.push2D(this.extrudeObject.getFillVoxels(), this._fillVoxels)
-      } else {
-         for (let voxel of this.extrudeObject.getFillVoxels()) {
-            BaseObject.push2D(BaseObject.graph3DParametric(...voxel, ...(voxel.map((n, i) => n += this.extrudeVector[i]) as Voxel)), this._fillVoxels)
+         rotation = BaseObject.multiplyMatrices(turn, rotation)
+         if (i === 0 && shell) {
+            stamp(capSamples, rotation, start)
+         }
+         let steps = Math.max(1, Math.ceil(length * 2))
+         for (let step = 0; step <= steps; step++) {
+            stamp(wallSamples, rotation, start.map((n, k) => n + delta[k] * step / steps))
          }
+         if (i + 2 === this.path.length && shell) {
+            stamp(capSamples, rotation, this.path[i + 1])
+         }
+         previousDirection = direction
       }
+      this._fillVoxels = Object.values(sweptVoxels)
       this.calculateBoundingBox()
       return this
    }
 }
 
-export interface LayerConvexExtrudeOptions {
-   "controller": UUIDController,
-   "origin": Voxel
-   "extrudeObjects": Layer[]
+export enum LayerLoftMatchModes {
+   /**
+    * Each vertex of a layer is joined to the vertex of the next layer with the same index, after the starting vertex is lined up. Requires every layer to have the same amount of vertices.
+    */
+   "MATCH_VERTICES" = "MATCH_VERTICES",
+   /**
+    * The outline of each pair of layers is resampled to the same amount of evenly spaced points, which are then joined.
+    */
+   "MATCH_PERIMETER" = "MATCH_PERIMETER"
 }
 
-export enum LayerConvexExtrudeEdgeDirectoryOptions {
-   "RETURN_MODE_FULL_DIRECTORY" = "RETURN_MODE_FULL_DIRECTORY",
-   "RETURN_MODE_VOXELS" = "RETURN_MODE_VOXELS"
+export interface LayerLoftExtrudeOptions {
+   "controller": UUIDController,
+   "origin": Voxel
+   /**
+    * The layers to loft between, where order matters.
+    */
+   "extrudeObjects": Layer[],
+   /**
+    * How the outlines of two layers are joined. Defaults to MATCH_VERTICES when every layer has the same amount of vertices, otherwise MATCH_PERIMETER.
+    */
+   "matchMode"?: LayerLoftMatchModes
 }
 
 /**
- * This extrusion takes in any amount of layers and creates a fluid extrusion between them via Convex Hulls.
+ * Takes in any amount of layers and creates a smooth extrusion between them that keeps concave outlines, unlike {@link LayerConvexExtrude}.
+ *
+ * @remarks
+ * The outlines of two layers are matched point to point, and the outline is linearly moved from one layer to the next one voxel at a time.
+ * Each in-between outline is filled by an even-odd test within its own plane.
  */
-export class LayerConvexExtrude extends BaseObject {
-   shell: boolean;
+export class LayerLoftExtrude extends BaseObject {
    /**
-    * The layers to extrude between, where order matters.
+    * The layers to loft between, where order matters.
     */
-   extrudeObjects: Layer[];
+   extrudeObjects: Layer[]
    /**
-    * The extrusion is divided up into sections, with every two layer object grouped into one section.
-    *
-    * Each of these sections is stored as an indepedent VoxelCollection within the edgeDirectory.
-    *
-    * The voxels of each section overlap, so use {@link LayerConvexExtrude.getEdgeDirectory} to retrieve a duplicate free version.
+    * How the outlines of two layers are joined.
     */
-   edgeDirectory: Record<number, VoxelCollection>;
+   matchMode: LayerLoftMatchModes
    /**
-    * The amount of degrees in a single radian, calculated via 180 degrees / Math.PI upon initialization
+    * Defines if the current extruded shape is a shell (hollow) or not (filled)
     */
-   static #degPerRad: number = (180 / Math.PI)
-   constructor(options: LayerConvexExtrudeOptions) {
+   shell: boolean
+   constructor(options: LayerLoftExtrudeOptions) {
       super({
          "controller": options.controller,
          "origin": options.origin
-      });
-      this.extrudeObjects = options.extrudeObjects;
-      this.edgeDirectory = {};
-      this.shell = false;
-   }
-   /**
-    * Sorts the given array of XY points ascending order by their polar angle.
-    * 
-    * Uses Math.atan2(y, x) to calculate the angle from 0 to Math.PI, converts to degrees. 
-    * Converts all negative angles to positive degrees, then returns the subtraction of the angles.
-    * 
-    * Based upon JavaScripts built in sort method
-    * 
-    * Complexity: O(n*log2(n))
-    * 
-    * @param inputPoints Array of XY points
-    * @param center The origin to base the angle from.
-    * @returns Mutates the original input in sorted order.
-    */
-   static polarSort(inputPoints: Point[], center: Point) {
-      return inputPoints.sort((a, b) => {
-         let angle1 = Math.atan2((a[1] - center[1]), (a[0] - center[0])) * LayerConvexExtrude.#degPerRad;
-         angle1 += angle1 < 0 ? 360 : 0
-         let angle2 = Math.atan2((b[1] - center[1]), (b[0] - center[0])) * LayerConvexExtrude.#degPerRad;
-         angle2 += angle2 < 0 ? 360 : 0
-         return angle1 - angle2
       })
-   }
-   /**
-    * Calculuates the linearity of the three points.
-    * 
-    * If the points trend positive, it is a counter-clockwise.
-    * 
-    * If the points trend zero, the points are collinear
-    * 
-    * If the points treng negative, the points are clockwise.
-    * 
-    * 
-    * P1 --> P2 --> P3
-    * 
-    * @param p1
-    * @param p2
-    * @param p3 
-    * @returns Positive for counter-clockwise, zero for collinear, negative for clockwise.
+      this.extrudeObjects = [...options.extrudeObjects]
+      this.matchMode = options.matchMode ?? LayerLoftExtrude.defaultMatchMode(this.extrudeObjects)
+      this.shell = false
+   }
+   /**
+    * @param extrudeObjects Layers to loft between
+    * @returns MATCH_VERTICES if every layer has the same amount of vertices, otherwise MATCH_PERIMETER
     */
-   static pointOrientation(p1: Point, p2: Point, p3: Point) {
-      // returns slope from p1 to p2 minus p2 to p3
-      return (p2[0] - p1[0]) * (p3[1] - p1[1]) - (p2[1] - p1[1]) * (p3[0] - p1[0])
+   static defaultMatchMode(extrudeObjects: Layer[]): LayerLoftMatchModes {
+      let counts = new Set(extrudeObjects.map(n => n.getVerticeVoxels().length))
+      return counts.size <= 1 ? LayerLoftMatchModes.MATCH_VERTICES : LayerLoftMatchModes.MATCH_PERIMETER
    }
    /**
-    * Uses Graham Scan to calculaute the Convex Hull of the given input points.
-    * 
-    * Complexity: O(n*log2(n))
-    * 
-    * @link https://en.wikipedia.org/wiki/Graham_scan
-    * 
-    * @param inputPoints The input points, does not mutate
-    * @returns The convexhull of the points.
+    * @param vertices Closed outline in order
+    * @returns The length of each edge, where edge i starts at vertex i
     */
-   static convexHull(inputPoints: Point[]) {
-      let stack = [];
-      // Sort the data set from lowest x value to highest
-      let sortedPoints = BaseObject.push2D(inputPoints, []).sort((a: Point, b: Point) => a[0] - b[0])
-      let center = sortedPoints[0];
-      sortedPoints = [center, ...LayerConvexExtrude.polarSort(sortedPoints.splice(1, sortedPoints.length), center)];
-      for (let i = 0; i < sortedPoints.length; i++) {
-         let point = sortedPoints[i];
-         if (stack.length > 1) {
-            while (stack.length > 1 && LayerConvexExtrude.pointOrientation(stack[1], stack[0], point) <= 0) {
-               stack.shift();
-            }
+   static edgeLengths(vertices: number[][]): number[] {
+      return vertices.map((n, i) => Math.sqrt([0, 1, 2].reduce((prev, curr) => prev + (vertices[(i + 1) % vertices.length][curr] - n[curr]) ** 2, 0)))
+   }
+   /**
+    * Places the given amount of points evenly along the closed outline of the vertices.
+    * @param vertices Closed outline in order
+    * @param count Amount of points to return
+    * @returns Unrounded XYZ points, starting at the first vertex
+    */
+   static resamplePerimeter(vertices: number[][], count: number): number[][] {
+      let lengths = LayerLoftExtrude.edgeLengths(vertices)
+      let perimeter = lengths.reduce((prev, curr) => prev + curr, 0)
+      let points: number[][] = []
+      let edge = 0
+      let edgeStart = 0
+      for (let i = 0; i < count; i++) {
+         let target = perimeter * i / count
+         while (edge < vertices.length - 1 && edgeStart + lengths[edge] <= target) {
+            edgeStart += lengths[edge]
+            edge++
          }
-         stack.unshift(point);
+         let start = vertices[edge]
+         let end = vertices[(edge + 1) % vertices.length]
+         let fraction = lengths[edge] === 0 ? 0 : (target - edgeStart) / lengths[edge]
+         points.push(start.map((n, j) => n + (end[j] - n) * fraction))
       }
-      return stack;
+      return points
    }
-   generateEdges(includeShapeEdges: boolean): LayerConvexExtrude {
-      this.resetEdgeDirectory();
-      // 1 2
-      // 0 1
-      // the coordinates of the line just made
-      let sectionKey = 0;
-      // The current Line
-      let lineVoxelCollection = new VoxelCollection({
-         "controller": this.controller,
-         "origin": [0, 0, 0],
-         "fillVoxels": []
-      });
-      // The computation median between the line and the current section
-      let compositeMedian = new CompositeVoxelCollection({
-         "controller": this.controller,
-         "origin": [0, 0, 0],
-         "variableNames": {},
-         "log": false
-      });
-      // For all extrude objects
-      for (let i = 0; i < this.extrudeObjects.length; i++) {
-         if (i + 1 < this.extrudeObjects.length) {
-            let startObject = this.extrudeObjects[i];
-            let endObject = this.extrudeObjects[i + 1];
-            // Create a new collection for this section of the extrude
-            var sectionVoxelCollection = new VoxelCollection({
-               "controller": this.controller,
-               "origin": [0, 0, 0],
-               "fillVoxels": []
-            });
-            // Change the composite medican varaibles to be the current section and the lines themself. 
-            compositeMedian.changeNames({
-               [sectionVoxelCollection.uuid]: sectionVoxelCollection,
-               [lineVoxelCollection.uuid]: lineVoxelCollection,
-            });
-            let edgeVoxel = new VoxelCollection({
-               "controller": this.controller,
-               "origin": [0, 0, 0],
-               "fillVoxels": endObject.getVerticeVoxels()
-            });
-            compositeMedian.changeNames({
-               [sectionVoxelCollection.uuid]: sectionVoxelCollection,
-               [lineVoxelCollection.uuid]: lineVoxelCollection,
-               [edgeVoxel.uuid]: edgeVoxel
-            }).setEquation(edgeVoxel.uuid + compositeMedian.tokens.SUBTRACTION_OP + sectionVoxelCollection.uuid);
-            sectionVoxelCollection.addFillVoxels(compositeMedian.interpretAST().getFillVoxels());
-            edgeVoxel.setFillVoxels(startObject.getVerticeVoxels())
-            sectionVoxelCollection.addFillVoxels(compositeMedian.interpretAST().getFillVoxels());
-            edgeVoxel.delete();
-            // Set the equation to the this new section + the line varaible. 
-            compositeMedian.setEquation(lineVoxelCollection.uuid + compositeMedian.tokens.SUBTRACTION_OP + sectionVoxelCollection.uuid);
-            // reset it for each new section calculauted 
-            lineVoxelCollection.setFillVoxels([]);
-            // Extrude all vertices from start of section layer to end of section layer
-            let startV = startObject.getVerticeVoxels();
-            let endV = endObject.getVerticeVoxels();
-            for (let SV of startV) {
-               for (let EV of endV) {
-                  // Set the fille voxels of the current lineCollection to the outputted line calculation
-                  lineVoxelCollection.setFillVoxels(BaseObject.graph3DParametric(...SV, ...EV));
-                  // THen, add these new voxels to the section, removing duplicates by subtracting.
-                  sectionVoxelCollection.addFillVoxels(compositeMedian.interpretAST().getFillVoxels());
-               }
-            }
-            /**
-             * Since the process of extruding each vertice to another creates internal points,
-             * A convex hull is applied to each slice of the section. 
-             * This leaves behind only the points on the outside shell of the shape.
-             * 
-             * This is done by looping through each sortedFillVoxelDirectory slice, 
-             * and generating the convexHull for each slice. 
-             * Since the sortedFillVoxelsDirectory should not be mutated all of the resulting convexHulls are placed in a new array.
-             * This new array is the new fillVoxels for this section.
-             */
-            let newFillVoxel: Voxel[] = [];
-            let boundingBoxMetaReference: BoundingBox;
-            for (let key of Object.keys(sectionVoxelCollection.sortedFillVoxelsDirectory)) {
-               // The inital type for convexCoords is Voxel[], but it gets turned into Point[]
-               // As a result, the inital type must be number[][] to support both types.
-               let convexCoords: number[][] = BaseObject.deepCopy(sectionVoxelCollection.sortedFillVoxelsDirectory[Number(key)]);
-               boundingBoxMetaReference = sectionVoxelCollection.boundingBoxMeta as BoundingBox;
-               convexCoords = convexCoords.map((v) => v.filter((coordValue, index) => index != boundingBoxMetaReference.biggestRangeIndex[0]));
-               // convexHull only accepts Point[], so it is casted due to filtering.
-               convexCoords = LayerConvexExtrude.convexHull(convexCoords as Point[]);
-               convexCoords = convexCoords.map((v) => { return v.splice(boundingBoxMetaReference.biggestRangeIndex[0], 0, Number(key)), v; });
-               BaseObject.push2D(convexCoords, newFillVoxel);
+   /**
+    * Lines up the second outline with the first, so that each point is joined to the closest matching point.
+    *
+    * The second outline is reversed if it winds in the opposite direction, then shifted to the starting point with the smallest total distance.
+    *
+    * @param from Outline to match against
+    * @param to Outline with the same amount of points as from, does not mutate
+    * @returns The lined up copy of to
+    */
+   static alignOutlines(from: number[][], to: number[][]): number[][] {
+      let candidates = [to, [...to].reverse()]
+      let best = to
+      let bestCost = Infinity
+      for (let candidate of candidates) {
+         for (let shift = 0; shift < candidate.length; shift++) {
+            let cost = 0
+            for (let i = 0; i < from.length && cost < bestCost; i++) {
+               let point = candidate[(i + shift) % candidate.length]
+               cost += (from[i][0] - point[0]) ** 2 + (from[i][1] - point[1]) ** 2 + (from[i][2] - point[2]) ** 2
             }
-            /**
-             * The section is now directly updated with these new voxels.
-             * This is done by directly mutating the _fillVoxels, saving O(n) time.
-             */
-            sectionVoxelCollection._fillVoxels = newFillVoxel;
-            sectionVoxelCollection.calculateBoundingBox();
-            // Save a reference to this new section object.
-            this.edgeDirectory[sectionKey] = sectionVoxelCollection;
-            sectionKey++;
-            /**
-             * Since the convexHull operation only saves the minimal amount of points 
-             * required to construct a shell of this shape, the user can clean up the shape edges to make it look better.
-             * This is an experimental feature.
-             */
-            if (includeShapeEdges) {
-               let edgeVoxel = new VoxelCollection({
-                  "controller": this.controller,
-                  "origin": [0, 0, 0],
-                  "fillVoxels": endObject.getEdgeVoxels()
-               });
-               compositeMedian.changeNames({
-                  [sectionVoxelCollection.uuid]: sectionVoxelCollection,
-                  [edgeVoxel.uuid]: edgeVoxel
-               }).setEquation(edgeVoxel.uuid + compositeMedian.tokens.SUBTRACTION_OP + sectionVoxelCollection.uuid);
-               sectionVoxelCollection.addFillVoxels(compositeMedian.interpretAST().getFillVoxels());
-               edgeVoxel.setFillVoxels(startObject.getEdgeVoxels())
-               sectionVoxelCollection.addFillVoxels(compositeMedian.interpretAST().getFillVoxels());
-               // Do some styling by generating edges.
-               let sectionKeys = Object.keys(sectionVoxelCollection.sortedFillVoxelsDirectory)
-               let sortedFillEntry = BaseObject.push2D(sectionVoxelCollection.sortedFillVoxelsDirectory[Number(sectionKeys[0])], [])
-               sortedFillEntry = sortedFillEntry.map((v: number[]) => v.filter((coordValue: number, index: number) => index != boundingBoxMetaReference.biggestRangeIndex[0]))
-               sortedFillEntry = LayerConvexExtrude.convexHull(sortedFillEntry)
-               sortedFillEntry = sortedFillEntry.map((v: number[]) => { return v.splice(boundingBoxMetaReference.biggestRangeIndex[0], 0, Number(sectionKeys[0])), v; });
-               edgeVoxel.delete();
-               let layerMedian = new Layer({
-                  "controller": this.controller,
-                  "origin": [0, 0, 0],
-                  "verticesArray": sortedFillEntry
-               })
-               compositeMedian.changeNames({
-                  [sectionVoxelCollection.uuid]: sectionVoxelCollection,
-                  [layerMedian.uuid]: layerMedian
-               }).setEquation(layerMedian.uuid + compositeMedian.tokens.SUBTRACTION_OP + sectionVoxelCollection.uuid);
-               // Generate the edges and add these back to the section
-               layerMedian.generateEdges();
-               sectionVoxelCollection.addFillVoxels(compositeMedian.interpretAST().getFillVoxels());
-               // Now do the highest key
-               sortedFillEntry = BaseObject.push2D(sectionVoxelCollection.sortedFillVoxelsDirectory[Number(sectionKeys[sectionKeys.length - 1])], [])
-               sortedFillEntry = sortedFillEntry.map((v: number[]) => v.filter((coordValue: number, index: number) => index != boundingBoxMetaReference.biggestRangeIndex[0]))
-               sortedFillEntry = LayerConvexExtrude.convexHull(sortedFillEntry)
-               sortedFillEntry = sortedFillEntry.map((v: number[]) => { return v.splice(boundingBoxMetaReference.biggestRangeIndex[0], 0, Number(sectionKeys[sectionKeys.length - 1])), v; });
-               layerMedian.changeVertices(sortedFillEntry).generateEdges();
-               sectionVoxelCollection.addFillVoxels(compositeMedian.interpretAST().getFillVoxels());
-               // Clear UUIDs
-               layerMedian.delete();
-
+            if (cost < bestCost) {
+               bestCost = cost
+               best = candidate.map((n, i) => candidate[(i + shift) % candidate.length])
             }
          }
       }
-      compositeMedian.delete()
-      lineVoxelCollection.delete();
-      this._fillVoxels = this.getEdgeDirectory(LayerConvexExtrudeEdgeDirectoryOptions.RETURN_MODE_VOXELS) as Voxel[];
-      this.calculateBoundingBox();
-      return this;
+      return best
    }
-   getEdgeDirectory(mode: LayerConvexExtrudeEdgeDirectoryOptions): Record<number, Voxel[]> | Voxel[] {
-      if (mode === LayerConvexExtrudeEdgeDirectoryOptions.RETURN_MODE_FULL_DIRECTORY) {
-         let output: Record<number, Voxel[]> = {};
-         for (let key of Object.keys(this.edgeDirectory)) {
-            output[Number(key)] = this.edgeDirectory[Number(key)].getFillVoxels();
+   /**
+    * Rasterizes the outline, and if not a shell, everything inside it.
+    *
+    * The inside is found with {@link Layer.scanlineFill} using the even-odd rule.
+    *
+    * @param outline Unrounded XYZ points in order
+    * @param shell If only the outline should be returned
+    * @returns Voxels of the outline without duplicates
+    */
+   static rasterizeOutline(outline: number[][], shell: boolean): Voxel[] {
+      let voxels: Record<string, Voxel> = {}
+      let rounded = outline.map(n => n.map(v => Math.round(v) + 0) as Voxel)
+      for (let i = 0; i < rounded.length; i++) {
+         for (let voxel of BaseObject.graph3DParametric(...rounded[i], ...rounded[(i + 1) % rounded.length])) {
+            voxels[voxel.join(",")] = voxel
          }
-         return output;
       }
-      else if (mode === LayerConvexExtrudeEdgeDirectoryOptions.RETURN_MODE_VOXELS) {
-         let fillVoxels: Voxel[] = [];
-         let compositeMedian = new CompositeVoxelCollection({
-            "controller": this.controller,
-            "origin": [0, 0, 0],
-            "variableNames": {},
-            "log": false
-         })
-         let equation = "";
-         let fillVoxelNamesAllSections: Record<string, VoxelCollection> = {};
-         let keys = Object.keys(this.edgeDirectory);
-         for (let i = 0; i < keys.length; i++) {
-            let key = Number(keys[i]);
-            equation += this.edgeDirectory[key].uuid;
-            fillVoxelNamesAllSections[this.edgeDirectory[key].uuid] = this.edgeDirectory[key];
-            if (i + 1 !== keys.length) {
-               equation += compositeMedian.tokens.UNION_OP;
-            }
-         }
-         compositeMedian.changeNames(fillVoxelNamesAllSections);
-         BaseObject.push2D(compositeMedian.setEquation(equation).interpretAST().getFillVoxels(), fillVoxels);
-         compositeMedian.delete();
-         return fillVoxels;
+      if (shell) {
+         return Object.values(voxels)
       }
-      else {
-         throw new ReferenceError("Invalid getEdgeDirectory mode, must be either 'RETURN_MODE_FULL_DIRECTORY' or 'RETURN_MODE_VOXELS'");
+      for (let voxel of Layer.scanlineFill(outline, LayerFillRules.FILL_RULE_EVEN_ODD)) {
+         voxels[voxel.join(",")] = voxel
       }
+      return Object.values(voxels)
    }
-   resetEdgeDirectory() {
-      this.shell = false;
-      this._fillVoxels = [];
-      for (let key of Object.keys(this.edgeDirectory)) {
-         this.edgeDirectory[Number(key)].delete();
-         delete this.edgeDirectory[Number(key)];
+   /**
+    * Changes the layers to loft between, resets the fillVoxels to the first layer's fillVoxels, sets shell to false.
+    *
+    * Re-calculautes bounding box.
+    *
+    * @param newObjects New layers, where order matters.
+    * @param matchMode How the outlines are joined, defaults the same way as the constructor.
+    * @returns Reference to this object for method chaining.
+    */
+   changeExtrudeObjects(newObjects: Layer[], matchMode?: LayerLoftMatchModes): LayerLoftExtrude {
+      this.extrudeObjects = [...newObjects]
+      this.matchMode = matchMode ?? LayerLoftExtrude.defaultMatchMode(this.extrudeObjects)
+      this._fillVoxels = this.extrudeObjects.length > 0 ? this.extrudeObjects[0].getFillVoxels() : []
+      this.calculateBoundingBox()
+      this.shell = false
+      return this
+   }
+   /**
+    * Generates the loft between each consecutive pair of {@link LayerLoftExtrude.extrudeObjects}.
+    *
+    * Stores with fillVoxels, re-calculautes bounding box.
+    *
+    * @param shell If the extrusion should be hollow or not. When hollow, the filled first and last layers close the ends.
+    * @returns Reference to this object for method chaining.
+    * @throws {@link RangeError} If there are less than two layers, a layer has no vertices, or MATCH_VERTICES is used with layers that have different amounts of vertices.
+    */
+   extrudeVoxels(shell: boolean): LayerLoftExtrude {
+      this.shell = shell
+      if (this.extrudeObjects.length < 2) {
+         throw new RangeError("LayerLoftExtrude " + this.uuid + " requires at least two layers.")
       }
-      return this;
+      let outlines = this.extrudeObjects.map(n => n.getVerticeVoxels() as number[][])
+      for (let i = 0; i < outlines.length; i++) {
+         if (outlines[i].length === 0) {
+            throw new RangeError("LayerLoftExtrude layer " + this.extrudeObjects[i].uuid + " has no vertices.")
+         }
+         if (this.matchMode === LayerLoftMatchModes.MATCH_VERTICES && outlines[i].length !== outlines[0].length) {
+            throw new RangeError("LayerLoftExtrude " + this.uuid + " can not match vertices between layers with " + outlines[0].length + " and " + outlines[i].length + " vertices, use MATCH_PERIMETER instead.")
+         }
+      }
+      let loftVoxels: Record<string, Voxel> = {}
+      for (let i = 0; i + 1 < outlines.length; i++) {
+         let start = outlines[i]
+         let end = outlines[i + 1]
+         if (this.matchMode === LayerLoftMatchModes.MATCH_PERIMETER) {
+            // One point per voxel of the longer outline
+            let count = Math.max(start.length, end.length, ...[start, end].map(outline => Math.ceil(LayerLoftExtrude.edgeLengths(outline).reduce((prev, curr) => prev + curr, 0))))
+            start = LayerLoftExtrude.resamplePerimeter(start, count)
+            end = LayerLoftExtrude.resamplePerimeter(end, count)
+         }
+         end = LayerLoftExtrude.alignOutlines(start, end)
+         // Enough steps that no outline point moves more than one voxel per step
+         let steps = 1
+         for (let j = 0; j < start.length; j++) {
+            for (let k = 0; k < 3; k++) {
+               steps = Math.max(steps, Math.ceil(Math.abs(end[j][k] - start[j][k])))
+            }
+         }
+         for (let step = 0; step <= steps; step++) {
+            let fraction = step / steps
+            let outline = start.map((n, j) => n.map((v, k) => v + (end[j][k] - v) * fraction))
+            for (let voxel of LayerLoftExtrude.rasterizeOutline(outline, shell)) {
+               loftVoxels[voxel.join(",")] = voxel
+            }
+         }
+      }
+      if (shell) {
+         for (let voxel of [...this.extrudeObjects[0].getFillVoxels(), ...this.extrudeObjects[this.extrudeObjects.length - 1].getFillVoxels()]) {
+            loftVoxels[voxel.join(",")] = voxel
+         }
+      }
+      this._fillVoxels = Object.values(loftVoxels)
+      this.calculateBoundingBox()
+      return this
    }
 }